@@ -0,0 +1,23 @@
+import React from 'react';
+import { AdventState, formatCountdown } from './advent';
+
+interface AdventCountdownProps {
+  advent: AdventState;
+}
+
+export const AdventCountdown: React.FC<AdventCountdownProps> = ({ advent }) => {
+  const christmas = advent.day > 24; // Christmas Day through New Year's Eve
+
+  return (
+    <div className="absolute top-28 md:top-auto md:bottom-20 inset-x-0 flex flex-col items-center gap-1 pointer-events-none font-accent uppercase text-accent drop-shadow-[0_0_10px_rgb(var(--theme-accent)/0.5)]">
+      {!christmas && (
+        <p className="text-lg tracking-[0.3em] tabular-nums" role="timer" aria-label="Time until Christmas">
+          {formatCountdown(advent.untilChristmas)}
+        </p>
+      )}
+      <p className="text-[9px] tracking-[0.3em] text-accent/70">
+        {christmas ? advent.today : advent.day > 0 ? `Day ${advent.day} · ${advent.today}` : "Until Christmas"}
+      </p>
+    </div>
+  );
+};
@@ -1,18 +1,39 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Experience } from './components/Experience';
 import { UI } from './components/UI';
+import { getUrlSeed, randomSeed, setUrlSeed } from './random';
+import { TimelineCaption } from './timeline';
+import { ThemeProvider } from './ThemeContext';
 
 const App: React.FC = () => {
+  // The seed fully determines the generated tree and lives in the URL for sharing
+  const [seed, setSeed] = useState(getUrlSeed);
+  const [caption, setCaption] = useState<TimelineCaption | null>(null);
+
+  const handleReseed = () => {
+    const next = randomSeed();
+    setUrlSeed(next);
+    setSeed(next);
+  };
+
+  // A shared session (?sync=) switched everyone to another tree
+  const handleSharedSeed = (next: number) => {
+    setUrlSeed(next);
+    setSeed(next);
+  };
+
   return (
-    <div className="relative w-full h-screen bg-[#01140e] overflow-hidden">
-      {/* 3D Canvas Layer */}
-      <div className="absolute inset-0 z-0">
-        <Experience />
-      </div>
+    <ThemeProvider>
+      <div className="relative w-full h-screen bg-page overflow-hidden">
+        {/* 3D Canvas Layer */}
+        <div className="absolute inset-0 z-0">
+          <Experience seed={seed} onCaption={setCaption} onSharedSeed={handleSharedSeed} />
+        </div>
 
-      {/* UI Overlay Layer */}
-      <UI />
-    </div>
+        {/* UI Overlay Layer */}
+        <UI seed={seed} onReseed={handleReseed} caption={caption} />
+      </div>
+    </ThemeProvider>
   );
 };
 
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AUDIO_FEATURES, AUDIO_TARGETS, AudioFeatureName, AudioInputKind, AudioMappings, AudioTargetName, DEFAULT_AUDIO_MAPPINGS } from './audio';
+
+const TARGET_LABELS: Record<AudioTargetName, string> = {
+  shimmer: 'Needle Shimmer',
+  topperLight: 'Topper Light',
+  bloom: 'Bloom',
+  pulse: 'Chaos Pulse',
+};
+
+const MAX_GAIN = 5;
+
+interface AudioPanelProps {
+  input: AudioInputKind | null;
+  playing: boolean;
+  error: string | null;
+  mappings: AudioMappings;
+  onMicrophone: () => void;
+  onFile: (file: File) => void;
+  onTogglePlay: () => void;
+  onStop: () => void;
+  onMappingsChange: (mappings: AudioMappings) => void;
+}
+
+const buttonClass = "px-2 py-1 rounded border border-accent/30 hover:border-accent transition-colors";
+
+export const AudioPanel: React.FC<AudioPanelProps> = ({
+  input, playing, error, mappings, onMicrophone, onFile, onTogglePlay, onStop, onMappingsChange,
+}) => {
+  const [showMappings, setShowMappings] = useState(false);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onFile(file);
+  };
+
+  const updateMapping = (target: AudioTargetName, change: Partial<AudioMappings[AudioTargetName]>) =>
+    onMappingsChange({ ...mappings, [target]: { ...mappings[target], ...change } });
+
+  return (
+    <div className="absolute top-24 right-4 md:top-28 md:right-16 w-56 flex flex-col gap-2 font-accent text-[9px] tracking-[0.2em] uppercase text-accent">
+      <div className="flex gap-2 items-center justify-end">
+        <span className="opacity-70">Audio</span>
+        <button onClick={onMicrophone} className={`${buttonClass} ${input === 'microphone' ? 'border-accent' : ''}`}>Mic</button>
+        <label className={`${buttonClass} cursor-pointer ${input === 'file' ? 'border-accent' : ''}`}>
+          Music
+          <input type="file" accept="audio/*" className="hidden" onChange={handleFile} />
+        </label>
+        {input && (
+          <>
+            <button onClick={onTogglePlay} className={buttonClass} aria-label={playing ? "Pause audio" : "Play audio"}>
+              {playing ? "❚❚" : "▶"}
+            </button>
+            <button onClick={onStop} className={buttonClass} aria-label="Stop audio">■</button>
+          </>
+        )}
+        <button onClick={() => setShowMappings(v => !v)} className={buttonClass} aria-label="Audio mappings">⚙</button>
+      </div>
+
+      {showMappings && (
+        <div className="p-3 rounded-lg bg-black/70 border border-accent/40 flex flex-col gap-2">
+          {AUDIO_TARGETS.map(target => (
+            <div key={target} className="flex flex-col gap-1">
+              <div className="flex justify-between items-center">
+                <span>{TARGET_LABELS[target]}</span>
+                <select
+                  value={mappings[target].source}
+                  onChange={e => updateMapping(target, { source: e.target.value as AudioFeatureName })}
+                  className="bg-black/60 border border-accent/30 rounded px-1 text-accent uppercase"
+                >
+                  {AUDIO_FEATURES.map(feature => <option key={feature} value={feature}>{feature}</option>)}
+                </select>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={MAX_GAIN}
+                step={0.05}
+                value={mappings[target].gain}
+                onChange={e => updateMapping(target, { gain: Number(e.target.value) })}
+                aria-label={`${TARGET_LABELS[target]} gain`}
+              />
+            </div>
+          ))}
+          <button onClick={() => onMappingsChange(DEFAULT_AUDIO_MAPPINGS)} className={buttonClass}>Reset</button>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-2 rounded bg-black/70 border border-red-500/50 text-red-300 normal-case tracking-normal font-mono">{error}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef } from 'react';
+import { CAMERA_SIZE, CameraState, CameraStatus } from './camera';
+import { MotionView } from './inputSources';
+import { useTheme } from './ThemeContext';
+
+interface CameraPreviewProps {
+  state: CameraState;
+  video: HTMLVideoElement;
+  view: MotionView; // Heat map and centroid written by the webcam source
+  onEnable: () => void;
+  onDisable: () => void;
+  onRetry: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onSelectDevice: (deviceId: string) => void;
+}
+
+const STATUS_LABELS: Record<CameraStatus, string> = {
+  off: "Camera off",
+  requesting: "Requesting…",
+  denied: "Access denied",
+  unavailable: "No camera",
+  active: "Live",
+  paused: "Paused",
+};
+
+const HEAT_COLOR = [255, 96, 32];
+
+const buttonClass = "px-1 py-0.5 rounded bg-black/60 border border-accent/30 hover:border-accent transition-colors";
+
+export const CameraPreview: React.FC<CameraPreviewProps> = ({ state, video, view, onEnable, onDisable, onRetry, onPause, onResume, onSelectDevice }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { theme } = useTheme();
+  const { status } = state;
+  const showPreview = status === 'active' || status === 'paused';
+
+  // Mirrored video with the motion heat map and centroid on top
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!showPreview || !canvas || !ctx) return;
+
+    const heatCanvas = document.createElement('canvas');
+    heatCanvas.width = view.size;
+    heatCanvas.height = view.size;
+    const heatCtx = heatCanvas.getContext('2d')!;
+    const heatImage = heatCtx.createImageData(view.size, view.size);
+    for (let i = 0; i < view.heat.length; i++) heatImage.data.set(HEAT_COLOR, i * 4);
+
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const { width, height } = canvas;
+      ctx.save();
+      ctx.translate(width, 0);
+      ctx.scale(-1, 1);
+      if (video.readyState >= video.HAVE_CURRENT_DATA) ctx.drawImage(video, 0, 0, width, height);
+      if (status === 'active') {
+        for (let i = 0; i < view.heat.length; i++) heatImage.data[i * 4 + 3] = view.heat[i];
+        heatCtx.putImageData(heatImage, 0, 0);
+        ctx.drawImage(heatCanvas, 0, 0, width, height);
+      }
+      ctx.restore();
+
+      // The frame's centroid is already mirrored
+      const motion = view.frame;
+      if (status === 'active' && motion && motion.energy > 0) {
+        ctx.strokeStyle = theme.palette.accent;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(((motion.cx + 1) / 2) * width, ((motion.cy + 1) / 2) * height, 4 + motion.energy * 10, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [showPreview, status, video, view, theme.palette.accent]);
+
+  return (
+    <div
+      data-input-ignore
+      className="absolute bottom-4 left-4 w-24 h-24 rounded-lg overflow-hidden border border-accent/30 bg-black font-accent text-[8px] tracking-[0.15em] uppercase text-accent"
+    >
+      {showPreview && (
+        <canvas
+          ref={canvasRef}
+          width={CAMERA_SIZE}
+          height={CAMERA_SIZE}
+          role="img"
+          aria-label="Camera preview with detected motion"
+          className={`absolute inset-0 w-full h-full ${status === 'paused' ? 'opacity-40' : ''}`}
+        />
+      )}
+
+      {showPreview && state.devices.length > 1 && (
+        <select
+          value={state.deviceId ?? ''}
+          onChange={e => onSelectDevice(e.target.value)}
+          aria-label="Camera"
+          className="absolute top-1 inset-x-1 bg-black/60 border border-accent/30 rounded text-accent normal-case tracking-normal"
+        >
+          {state.devices.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+        </select>
+      )}
+
+      {!showPreview && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 p-1 text-center" title={state.error ?? undefined}>
+          <span>{STATUS_LABELS[status]}</span>
+          {status === 'off' && <button onClick={onEnable} className={buttonClass} aria-label="Enable camera gestures">Enable</button>}
+          {status === 'requesting' && <button onClick={onDisable} className={buttonClass}>Cancel</button>}
+          {(status === 'denied' || status === 'unavailable') && (
+            <div className="flex gap-1">
+              <button onClick={onRetry} className={buttonClass}>Retry</button>
+              <button onClick={onDisable} className={buttonClass} aria-label="Turn camera off">Off</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showPreview && (
+        <div className="absolute bottom-1 inset-x-1 flex justify-between">
+          <button onClick={status === 'active' ? onPause : onResume} className={buttonClass}>
+            {status === 'active' ? "Pause" : "Resume"}
+          </button>
+          <button onClick={onDisable} className={buttonClass} aria-label="Turn camera off">Off</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import { addAfterEffect, useThree } from '@react-three/fiber';
+import { CLIP_DURATION, clipStateAt, copyCanvas, createClipRecorder } from './capture';
+
+// --- CAPTURE CONTROLLER ---
+// Lives inside the Canvas. Frames are copied in a global after-effect, i.e.
+// right after the composer has drawn them (bloom and all), in the same task,
+// so the drawing buffer is still intact.
+
+export interface CaptureApi {
+  /** The next frame as displayed, at the current resolution. */
+  grabFrame: () => Promise<HTMLCanvasElement>;
+  /** The next frame rendered `width` pixels wide (the aspect ratio is kept). */
+  grabFrameAt: (width: number) => Promise<HTMLCanvasElement>;
+  /** Plays the unleash -> reform script at a fixed timestep and records it as WebM. */
+  recordClip: (fps: number, onProgress?: (fraction: number) => void) => Promise<Blob>;
+}
+
+interface CaptureControllerProps {
+  api: React.MutableRefObject<CaptureApi | null>;
+  onScript: (unleashed: boolean) => void; // The clip drives the tree through this
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const CaptureController: React.FC<CaptureControllerProps> = ({ api, onScript }) => {
+  const { gl, clock, size, advance, setFrameloop } = useThree();
+  const pending = useRef<((frame: HTMLCanvasElement) => void)[]>([]);
+  const onScriptRef = useRef(onScript);
+  onScriptRef.current = onScript;
+
+  useEffect(() => addAfterEffect(() => {
+    if (pending.current.length === 0) return;
+    const frame = copyCanvas(gl.domElement);
+    pending.current.splice(0).forEach(resolve => resolve(frame));
+  }), [gl]);
+
+  useEffect(() => {
+    const grabFrame = () => new Promise<HTMLCanvasElement>(resolve => pending.current.push(resolve));
+
+    api.current = {
+      grabFrame,
+
+      grabFrameAt: async (width) => {
+        // The composer notices the new pixel ratio and resizes its buffers for the next frame
+        const previous = gl.getPixelRatio();
+        gl.setPixelRatio(width / size.width);
+        try {
+          return await grabFrame();
+        } finally {
+          gl.setPixelRatio(previous);
+        }
+      },
+
+      recordClip: async (fps, onProgress) => {
+        const recorder = createClipRecorder(gl.domElement, fps);
+        const frames = Math.round(CLIP_DURATION * fps);
+        const startTime = clock.elapsedTime;
+        const startWall = performance.now();
+
+        // Take over the render loop: every frame advances exactly 1/fps
+        setFrameloop('never');
+        clock.elapsedTime = startTime;
+        try {
+          for (let i = 0; i <= frames; i++) {
+            const t = i / fps;
+            onScriptRef.current(clipStateAt(t));
+            // Let React commit the script change, and pace frames in real time for the encoder
+            await wait(Math.max(0, startWall + i * recorder.frameMs - performance.now()));
+            advance(startTime + t);
+            recorder.frame();
+            onProgress?.(i / frames);
+          }
+        } catch (e) {
+          recorder.cancel();
+          throw e;
+        } finally {
+          setFrameloop('always');
+          clock.elapsedTime = startTime + CLIP_DURATION; // Keep shader time moving forward
+        }
+        return recorder.finish();
+      },
+    };
+    return () => { api.current = null; };
+  }, [api, gl, clock, size, advance, setFrameloop]);
+
+  return null;
+};
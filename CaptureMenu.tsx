@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportOptions } from './treeExport';
+
+interface CaptureMenuProps {
+  status: string | null; // Set while a capture is running
+  error: string | null;
+  canRecordClip: boolean;
+  onScreenshot: () => void;
+  onPoster: () => void;
+  onClip: () => void;
+  onExport: (options: ExportOptions) => void;
+}
+
+const buttonClass = "px-2 py-1 rounded border border-accent/30 hover:border-accent transition-colors disabled:opacity-40";
+
+export const CaptureMenu: React.FC<CaptureMenuProps> = ({ status, error, canRecordClip, onScreenshot, onPoster, onClip, onExport }) => {
+  const [open, setOpen] = useState(false);
+  const [pose, setPose] = useState(0); // Progress to export at
+  const [solidFoliage, setSolidFoliage] = useState(false);
+  const exportAs = (format: ExportFormat) => onExport({ format, progress: pose, solidFoliage });
+  const busy = status !== null;
+
+  return (
+    <div className="absolute bottom-52 left-4 flex flex-col gap-2 font-accent text-[9px] tracking-[0.2em] uppercase text-accent">
+      <button onClick={() => setOpen(o => !o)} className={buttonClass} aria-expanded={open}>
+        {status ?? "Capture"}
+      </button>
+      {open && (
+        <div className="flex flex-col gap-2">
+          <button onClick={onScreenshot} disabled={busy} className={buttonClass}>Screenshot</button>
+          <button onClick={onPoster} disabled={busy} className={buttonClass}>Poster 4K</button>
+          <button onClick={onClip} disabled={busy || !canRecordClip} className={buttonClass} title={canRecordClip ? undefined : "WebM recording is not supported in this browser"}>
+            Clip
+          </button>
+
+          {/* 3D model of the tree */}
+          <div className="flex flex-col gap-2 pt-2 border-t border-accent/20">
+            <label className="flex items-center justify-between gap-2">
+              Pose
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={pose}
+                onChange={e => setPose(Number(e.target.value))}
+                aria-valuetext={pose === 0 ? "Formed" : pose === 1 ? "Chaos" : `${Math.round(pose * 100)}% unleashed`}
+                className="w-16 accent-current"
+              />
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer" title="Needles become small solids, so the file can be 3D printed">
+              <input type="checkbox" checked={solidFoliage} onChange={e => setSolidFoliage(e.target.checked)} />
+              Printable
+            </label>
+            <div className="flex gap-2">
+              <button onClick={() => exportAs('glb')} disabled={busy} className={`${buttonClass} flex-1`}>GLB</button>
+              <button onClick={() => exportAs('obj')} disabled={busy} className={`${buttonClass} flex-1`}>OBJ</button>
+            </div>
+          </div>
+        </div>
+      )}
+      {error && (
+        <div className="p-2 rounded bg-black/70 border border-red-500/50 text-red-300 normal-case tracking-normal font-mono">{error}</div>
+      )}
+    </div>
+  );
+};
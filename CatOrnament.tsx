@@ -1,5 +1,5 @@
 // This file is deprecated. 
-// Cat ornaments are now handled directly within LuxuryTree.tsx via InstancedMesh logic 
+// Cat ornaments are now handled by OrnamentSystem.tsx via InstancedMesh logic
 // to support the complex Dual-Position morphing system.
 import React from 'react';
 export const CatBauble = () => null;
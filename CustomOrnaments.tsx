@@ -0,0 +1,169 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { MathUtils } from 'three';
+import { CustomOrnament, TreeConfig, Vector3Array } from './types';
+import { useTheme } from './ThemeContext';
+import { ForceField } from './forceField';
+
+// --- PERSONAL ORNAMENTS (3D) ---
+// Only a handful exist, so unlike the generated ornaments each is its own component.
+
+// Also used by the model export (treeExport.ts)
+export const starGeometry = (() => {
+  const shape = new THREE.Shape();
+  const points = 5;
+  for (let i = 0; i < points * 2; i++) {
+    const r = i % 2 === 0 ? 1 : 0.45;
+    const a = (i / (points * 2)) * Math.PI * 2 + Math.PI / 2;
+    if (i === 0) shape.moveTo(Math.cos(a) * r, Math.sin(a) * r);
+    else shape.lineTo(Math.cos(a) * r, Math.sin(a) * r);
+  }
+  shape.closePath();
+  return new THREE.ExtrudeGeometry(shape, { depth: 0.3, bevelEnabled: true, bevelThickness: 0.08, bevelSize: 0.08, bevelSegments: 2 }).center();
+})();
+
+const CUSTOM_ORNAMENT_SCALE = 0.35;
+
+const offset: Vector3Array = [0, 0, 0];
+
+interface CustomOrnamentsProps {
+  ornaments: CustomOrnament[];
+  progress: React.MutableRefObject<number>;
+  config: TreeConfig;
+  placing: boolean;
+  pending: Vector3Array | null;
+  onPlace: (point: Vector3Array) => void;
+  forceField?: ForceField;
+}
+
+export const CustomOrnaments: React.FC<CustomOrnamentsProps> = ({ ornaments, progress, config, placing, pending, onPlace, forceField }) => {
+  const placementRef = useRef<THREE.Mesh>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const { theme } = useTheme();
+  const { height, apexHeight, baseRadius } = config.shape;
+
+  // Invisible cone matching the foliage, used to pick where to hang
+  const handlePlace = (e: ThreeEvent<MouseEvent>) => {
+    if (!placing || !placementRef.current?.parent) return;
+    e.stopPropagation();
+    const local = placementRef.current.parent.worldToLocal(e.point.clone());
+    onPlace([local.x, local.y, local.z]);
+  };
+
+  return (
+    <group>
+      <mesh
+        ref={placementRef}
+        position={[0, -height / 2 + apexHeight / 2, 0]}
+        visible={placing}
+        onClick={handlePlace}
+        raycast={placing ? THREE.Mesh.prototype.raycast : () => null}
+      >
+        <coneGeometry args={[baseRadius, apexHeight, 48, 1, true]} />
+        <meshBasicMaterial color={theme.palette.accent} wireframe transparent opacity={0.08} depthWrite={false} />
+      </mesh>
+
+      {pending && (
+        <mesh position={pending}>
+          <sphereGeometry args={[0.15, 16, 16]} />
+          <meshBasicMaterial color="#ffffff" toneMapped={false} />
+        </mesh>
+      )}
+
+      {ornaments.map(ornament => (
+        <CustomOrnamentItem
+          key={ornament.id}
+          ornament={ornament}
+          progress={progress}
+          forceField={forceField}
+          hovered={hovered === ornament.id}
+          onHover={over => setHovered(current => (over ? ornament.id : current === ornament.id ? null : current))}
+        />
+      ))}
+    </group>
+  );
+};
+
+interface CustomOrnamentItemProps {
+  ornament: CustomOrnament;
+  progress: React.MutableRefObject<number>;
+  forceField?: ForceField;
+  hovered: boolean;
+  onHover: (over: boolean) => void;
+}
+
+const CustomOrnamentItem: React.FC<CustomOrnamentItemProps> = ({ ornament, progress, forceField, hovered, onHover }) => {
+  const ref = useRef<THREE.Group>(null);
+  const { theme } = useTheme();
+  const target = useMemo(() => new THREE.Vector3(...ornament.position.target), [ornament]);
+  const chaos = useMemo(() => new THREE.Vector3(...ornament.position.chaos), [ornament]);
+
+  useFrame((state, delta) => {
+    if (!ref.current) return;
+    const p = MathUtils.smootherstep(progress.current, 0, 1);
+    offset.fill(0);
+    forceField?.offsetAt(ornament.position.target, offset);
+    ref.current.position.set(target.x + offset[0], target.y + offset[1], target.z + offset[2]).lerp(chaos, p);
+    ref.current.position.y += Math.sin(state.clock.elapsedTime + target.x) * 0.05;
+    ref.current.rotation.y += delta * (hovered ? 2 : 0.5);
+    const scale = CUSTOM_ORNAMENT_SCALE * (hovered ? 1.3 : 1);
+    ref.current.scale.setScalar(MathUtils.damp(ref.current.scale.x, scale, 8, delta));
+  });
+
+  return (
+    <group
+      ref={ref}
+      onPointerOver={e => { e.stopPropagation(); onHover(true); }}
+      onPointerOut={() => onHover(false)}
+    >
+      {ornament.shape === 'gift' && (
+        <>
+          <mesh castShadow>
+            <boxGeometry args={[1.4, 1.4, 1.4]} />
+            <meshStandardMaterial color={ornament.color} metalness={0.8} roughness={0.2} />
+          </mesh>
+          {/* Ribbon */}
+          <mesh>
+            <boxGeometry args={[1.45, 1.45, 0.25]} />
+            <meshStandardMaterial color={theme.palette.accent} metalness={1} roughness={0.2} />
+          </mesh>
+          <mesh>
+            <boxGeometry args={[0.25, 1.45, 1.45]} />
+            <meshStandardMaterial color={theme.palette.accent} metalness={1} roughness={0.2} />
+          </mesh>
+        </>
+      )}
+      {ornament.shape === 'star' && (
+        <mesh castShadow geometry={starGeometry}>
+          <meshStandardMaterial color={ornament.color} emissive={ornament.color} emissiveIntensity={0.6} metalness={0.9} roughness={0.15} />
+        </mesh>
+      )}
+      {ornament.shape === 'cat' && (
+        <mesh castShadow>
+          {/* Cat Head Bauble */}
+          <sphereGeometry args={[1, 24, 24]} />
+          <meshStandardMaterial color={ornament.color} metalness={1} roughness={0.1} envMapIntensity={2} />
+          {/* Cat Ears */}
+          <mesh position={[-0.4, 0.6, 0]} rotation={[0, 0, 0.4]}>
+            <coneGeometry args={[0.3, 0.6, 16]} />
+            <meshStandardMaterial color={ornament.color} metalness={1} />
+          </mesh>
+          <mesh position={[0.4, 0.6, 0]} rotation={[0, 0, -0.4]}>
+            <coneGeometry args={[0.3, 0.6, 16]} />
+            <meshStandardMaterial color={ornament.color} metalness={1} />
+          </mesh>
+        </mesh>
+      )}
+
+      {hovered && ornament.message && (
+        <Html center position={[0, 2.2, 0]} style={{ pointerEvents: 'none' }}>
+          <div className="px-3 py-2 rounded-lg bg-black/80 border border-accent/50 text-accent font-display italic text-sm whitespace-nowrap shadow-[0_0_15px_rgb(var(--theme-accent)/0.3)]">
+            {ornament.message}
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+};
@@ -8,217 +8,993 @@ import {
   Html
 } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
+import type { BloomEffect } from 'postprocessing';
 import { LuxuryTree } from './LuxuryTree';
 import * as THREE from 'three';
+import { CustomOrnament, InputEvent, InputFrame, MorphTargetName, RecordedSession, TreeConfig, Vector3Array } from './types';
+import { DEFAULT_TREE_CONFIG, loadTreeConfig, resolveTreeConfig } from './treeConfig';
+import { MORPH_TARGETS, loadMorphSettings } from './morphTargets';
+import {
+  InputActions,
+  InputHub,
+  createGamepadSource,
+  createInputActionMapper,
+  createInputHub,
+  createKeyboardSource,
+  createPointerSource,
+  createReplaySource,
+  createSessionRecorder,
+  createMotionView,
+  createWebcamSource,
+  fetchRecordedSession,
+  parseRecordedSession,
+} from './inputSources';
+import {
+  createCustomOrnament,
+  loadCustomOrnaments,
+  mergeCustomOrnaments,
+  parseCustomOrnaments,
+  saveCustomOrnaments,
+  toCustomOrnamentFile,
+} from './customOrnaments';
+import { OrnamentPanel } from './OrnamentPanel';
+import { QUALITY_TIERS, QualityMode, QualityTier, createQualityGovernor, getQualityTier, isQualityMode, loadQualityMode } from './quality';
+import {
+  AudioEngine,
+  AudioInputKind,
+  AudioMappings,
+  AudioReaction,
+  applyAudioMappings,
+  createAudioEngine,
+  createAudioReaction,
+  decayAudioReaction,
+  loadAudioMappings,
+  saveAudioMappings,
+} from './audio';
+import { AudioPanel } from './AudioPanel';
+import { loadSnowSettings } from './snow';
+import { loadPhysicsMode } from './ornamentPhysics';
+import { CELEBRATION_TIMELINE, Clock, adventState, loadAdventSettings } from './advent';
+import { AdventCountdown } from './AdventCountdown';
+import { ExportOptions, exportTreeModel } from './treeExport';
+import { Snowfall } from './Snowfall';
+import { CaptureApi, CaptureController } from './CaptureController';
+import { CaptureMenu } from './CaptureMenu';
+import { CLIP_FPS, POSTER_WIDTH, canvasToBlob, composePoster, isClipRecordingSupported } from './capture';
+import { downloadBlob, downloadJson } from './download';
+import { SharedState, SyncClient, SyncStatus, SyncedProgress, createSyncClient, loadSyncSettings } from './sync';
+import { KioskSettings, TimelineCaption, TimelineCue, Timeline, TimelineSample, cuesBetween, loadKioskSettings, sampleTimeline } from './timeline';
+import { isThemeName } from './theme';
+import {
+  AnnouncedState,
+  KEYBOARD_HELP,
+  describeCameraStatus,
+  describeChange,
+  loadMotionOverride,
+  prefersReducedMotion,
+  watchReducedMotion,
+} from './accessibility';
+import { CameraSettings, createCamera, loadCameraSettings, saveCameraSettings } from './camera';
+import { CameraPreview } from './CameraPreview';
+import { useTheme } from './ThemeContext';
+import { SceneTuning, loadSceneTuning, saveSceneTuning } from './sceneTuning';
+import { TuningPanel } from './TuningPanel';
+import { LIGHT_PATTERNS, LightProgram, isLightPatternName, lightProgramLabel, loadLightProgram, parseLightSequence } from './lightPatterns';
 
-// --- GESTURE CONTROLLER COMPONENT ---
-// Analyzes webcam feed for motion energy to drive the "Unleash" state
-const GestureManager = ({ onUpdate }: { onUpdate: (energy: number, cx: number, cy: number) => void }) => {
-    const videoRef = useRef<HTMLVideoElement>(document.createElement("video"));
-    const canvasRef = useRef<HTMLCanvasElement>(document.createElement("canvas"));
-    const lastFrameData = useRef<Uint8ClampedArray | null>(null);
+// --- INPUT MANAGER COMPONENT ---
+// Drives the per-frame input sources (webcam analysis, gamepad polling, replays)
+const InputManager = ({ hub }: { hub: InputHub }) => {
+    useFrame(() => hub.tick(performance.now()));
+    return null;
+}
+
+// --- QUALITY MONITOR COMPONENT ---
+// Measures frame time and asks for a cheaper (or richer) quality tier
+const QualityMonitor = ({ enabled, tierIndex, onChange }: { enabled: boolean, tierIndex: number, onChange: (tierIndex: number) => void }) => {
+    const governor = useRef(createQualityGovernor(tierIndex));
 
+    // Measure afresh whenever auto mode is (re)entered
     useEffect(() => {
-        const startVideo = async () => {
-            try {
-                const stream = await navigator.mediaDevices.getUserMedia({ video: { width: 128, height: 128 } });
-                videoRef.current.srcObject = stream;
-                videoRef.current.play();
-            } catch (e) {
-                console.warn("Camera access denied or unavailable", e);
-            }
-        };
-        startVideo();
-    }, []);
-
-    useFrame((state) => {
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        
-        if (video.readyState === video.HAVE_ENOUGH_DATA) {
-            // Draw video to small canvas for processing
-            canvas.width = 64; // Low res for performance
-            canvas.height = 64;
-            const ctx = canvas.getContext('2d', { willReadFrequently: true });
-            if (ctx) {
-                ctx.drawImage(video, 0, 0, 64, 64);
-                const imageData = ctx.getImageData(0, 0, 64, 64);
-                const data = imageData.data;
-                
-                let diffScore = 0;
-                let activePixels = 0;
-                let sumX = 0;
-                let sumY = 0;
-
-                // Simple Motion Detection: Difference from last frame
-                if (lastFrameData.current) {
-                    for (let i = 0; i < data.length; i += 4) {
-                        const rDiff = Math.abs(data[i] - lastFrameData.current[i]);
-                        const gDiff = Math.abs(data[i+1] - lastFrameData.current[i+1]);
-                        const bDiff = Math.abs(data[i+2] - lastFrameData.current[i+2]);
-                        
-                        if (rDiff + gDiff + bDiff > 50) { // Threshold
-                            diffScore++;
-                            // Calculate Centroid of motion
-                            const pixelIdx = i / 4;
-                            const x = pixelIdx % 64;
-                            const y = Math.floor(pixelIdx / 64);
-                            sumX += x;
-                            sumY += y;
-                            activePixels++;
-                        }
-                    }
-                }
-                
-                // Copy current to last
-                lastFrameData.current = new Uint8ClampedArray(data);
+        if (enabled) governor.current.reset(tierIndex, performance.now());
+    }, [enabled]);
 
-                // Normalize energy (0 to 1)
-                const energy = Math.min(diffScore / 500, 1);
-                
-                // Normalize Position (-1 to 1)
-                const cx = activePixels > 0 ? (sumX / activePixels / 32) - 1 : 0;
-                const cy = activePixels > 0 ? (sumY / activePixels / 32) - 1 : 0;
+    useFrame((state, delta) => {
+        if (!enabled) return;
+        const next = governor.current.sample(delta * 1000, performance.now());
+        if (next !== null) onChange(next);
+    });
+    return null;
+}
 
-                onUpdate(energy, cx, cy);
-            }
-        }
+// --- AUDIO DRIVER COMPONENT ---
+// Samples the audio engine once per frame and updates the shared reaction values
+const AudioDriver = ({ engine, reaction, mappings, bloom, baseBloom }: { engine: AudioEngine, reaction: React.MutableRefObject<AudioReaction>, mappings: AudioMappings, bloom: React.RefObject<BloomEffect | null>, baseBloom: number }) => {
+    useFrame((state, delta) => {
+        const features = engine.sample(performance.now());
+        if (features) applyAudioMappings(reaction.current, features, mappings, delta);
+        else decayAudioReaction(reaction.current, delta);
+        if (bloom.current) bloom.current.intensity = baseBloom * (1 + reaction.current.bloom);
     });
+    return null;
+}
+
+// --- TIMELINE DRIVER COMPONENT ---
+// Plays a choreography timeline: writes the sampled progress and camera pose
+// into refs every frame and fires cues as their time passes
+const TimelineDriver = ({ timeline, playing, loop, progress, camera, onCue, onEnd }: {
+    timeline: Timeline | null,
+    playing: boolean,
+    loop: boolean,
+    progress: React.MutableRefObject<number | null>,
+    camera: React.MutableRefObject<TimelineSample['camera']>,
+    onCue: (cue: TimelineCue) => void,
+    onEnd: () => void,
+}) => {
+    const time = useRef(0);
+
+    // Every (re)start plays from the top
+    useEffect(() => {
+        time.current = 0;
+        if (!playing) {
+            progress.current = null;
+            camera.current = null;
+        }
+    }, [playing, timeline]);
+
+    useFrame((state, delta) => {
+        if (!timeline || !playing) return;
+        const from = time.current;
+        const to = Math.min(from + delta, timeline.duration);
+        cuesBetween(timeline, from, to).forEach(onCue);
+
+        const sample = sampleTimeline(timeline, to);
+        progress.current = sample.progress;
+        camera.current = sample.camera;
 
+        if (to < timeline.duration) time.current = to;
+        else if (loop) time.current = 0;
+        else onEnd();
+    });
     return null;
 }
 
-const CameraController = ({ targetX, targetY }: { targetX: number, targetY: number }) => {
+const FOLLOW_LOOK_AT = new THREE.Vector3(0, 2, 0);
+
+const CameraController = ({ targetX, targetY, script, parallax = true }: { targetX: number, targetY: number, script?: React.MutableRefObject<TimelineSample['camera']>, parallax?: boolean }) => {
     const { camera } = useThree();
+    const follow = useRef(new THREE.Vector3(0, 4, 18));
+    const scripted = useRef({ position: new THREE.Vector3(0, 4, 18), lookAt: FOLLOW_LOOK_AT.clone() });
+    const lookAt = useRef(new THREE.Vector3());
+    const blend = useRef(0);
+
     useFrame((state, delta) => {
-        // Smoothly move camera based on hand position (Parallax)
-        camera.position.x = THREE.MathUtils.lerp(camera.position.x, targetX * 5, delta * 2);
-        camera.position.y = THREE.MathUtils.lerp(camera.position.y, 4 - targetY * 2, delta * 2);
-        camera.lookAt(0, 2, 0);
+        // Smoothly move camera based on hand position (Parallax), unless motion is reduced
+        const x = parallax ? targetX : 0;
+        const y = parallax ? targetY : 0;
+        follow.current.x = THREE.MathUtils.lerp(follow.current.x, x * 5, delta * 2);
+        follow.current.y = THREE.MathUtils.lerp(follow.current.y, 4 - y * 2, delta * 2);
+
+        // A timeline camera takes over (and hands back) with a crossfade
+        const pose = script?.current;
+        if (pose) {
+            scripted.current.position.set(...pose.position);
+            scripted.current.lookAt.set(...pose.lookAt);
+        }
+        blend.current = THREE.MathUtils.damp(blend.current, pose ? 1 : 0, 2, delta);
+
+        camera.position.lerpVectors(follow.current, scripted.current.position, blend.current);
+        lookAt.current.lerpVectors(FOLLOW_LOOK_AT, scripted.current.lookAt, blend.current);
+        camera.lookAt(lookAt.current);
     });
     return null;
 }
 
-export const Experience: React.FC = () => {
+interface ExperienceProps {
+  seed?: number;
+  onCaption?: (caption: TimelineCaption | null) => void; // Timeline text for the overlay
+  onSharedSeed?: (seed: number) => void;                  // Another viewer in the session picked a tree
+  clock?: Clock;                                          // Replaces the real (or ?now=) time, for previews
+}
+
+export const Experience: React.FC<ExperienceProps> = ({ seed = 0, onCaption = () => {}, onSharedSeed = () => {}, clock }) => {
   // State 0 (Tree) -> 1 (Chaos)
   const [unleashed, setUnleashed] = useState(false);
   const [motionEnergy, setMotionEnergy] = useState(0);
   const [handPos, setHandPos] = useState({ x: 0, y: 0 });
+  const [treeConfig, setTreeConfig] = useState<TreeConfig>(DEFAULT_TREE_CONFIG);
+  const [configError, setConfigError] = useState<string | null>(null);
+  const [qualityMode, setQualityMode] = useState<QualityMode>(loadQualityMode);
+  const [autoTierIndex, setAutoTierIndex] = useState(0);
+  const quality: QualityTier = qualityMode === 'auto' ? QUALITY_TIERS[autoTierIndex] : getQualityTier(qualityMode);
+  const [morphSettings] = useState(() => loadMorphSettings());
+  const [morphSequence, setMorphSequence] = useState<MorphTargetName[]>(morphSettings.sequence);
+  const [morphIndex, setMorphIndex] = useState(0);
+  const morphTarget = morphSequence[morphIndex % morphSequence.length];
+  const [snow] = useState(() => loadSnowSettings());
+  const [physics, setPhysics] = useState(() => loadPhysicsMode());
+  const { theme, setTheme } = useTheme();
+  // Scene look, edited live in the hidden tuning panel
+  const [tuning, setTuning] = useState<SceneTuning>(loadSceneTuning);
+  useEffect(() => saveSceneTuning(tuning), [tuning]);
+
+  // --- ACCESSIBILITY ---
+  // ?motion= wins over the system setting, which is followed live otherwise
+  const [motionOverride] = useState(() => loadMotionOverride());
+  const [systemReducedMotion, setSystemReducedMotion] = useState(prefersReducedMotion);
+  const reducedMotion = motionOverride ?? systemReducedMotion;
+  const [announcement, setAnnouncement] = useState('');
+
+  useEffect(() => watchReducedMotion(setSystemReducedMotion), []);
+
+  // --- CAMERA ---
+  // Opt-in. The camera owns the stream; the webcam input source only reads it.
+  const [camera] = useState(createCamera);
+  const [cameraState, setCameraState] = useState(camera.getState);
+  const [cameraSettings, setCameraSettings] = useState(() => loadCameraSettings());
+  const [motionView] = useState(createMotionView);
+
+  useEffect(() => camera.subscribe(setCameraState), [camera]);
+
+  const changeCameraSettings = (patch: Partial<CameraSettings>) => {
+      const next = { ...cameraSettings, ...patch };
+      saveCameraSettings(next);
+      setCameraSettings(next);
+      setMotionEnergy(0);
+  };
+
+  const cameraStatus = useRef(cameraState.status);
+  useEffect(() => {
+    if (cameraState.status === cameraStatus.current) return;
+    cameraStatus.current = cameraState.status;
+    const message = describeCameraStatus(cameraState.status, cameraState.error);
+    if (message) setAnnouncement(message);
+  }, [cameraState]);
+
+  // Cycle through the morph sequence while unleashed
+  useEffect(() => {
+    if (!unleashed || morphSequence.length < 2) return;
+    const timer = setInterval(() => setMorphIndex(i => (i + 1) % morphSequence.length), morphSettings.cycleSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [unleashed, morphSequence, morphSettings.cycleSeconds]);
+
+  const selectMorph = (sequence: MorphTargetName[]) => {
+    setMorphSequence(sequence);
+    setMorphIndex(0);
+  };
+
+  // Tree variant from ?tree=<preset> and/or ?config=<json file or inline json>,
+  // over the theme's colors
+  useEffect(() => {
+    let cancelled = false;
+    loadTreeConfig(undefined, resolveTreeConfig(theme.tree))
+      .then(config => { if (!cancelled) setTreeConfig(config); })
+      .catch((e: Error) => {
+        console.error(e.message);
+        if (!cancelled) setConfigError(e.message);
+      });
+    return () => { cancelled = true; };
+  }, [theme.name]);
+
+  // --- STRING LIGHTS ---
+  const [lightProgram, setLightProgram] = useState<LightProgram>('steady');
+  const [lightsError, setLightsError] = useState<string | null>(null);
+
+  // ?lights=<pattern | sequence file | inline json>
+  useEffect(() => {
+    let cancelled = false;
+    loadLightProgram()
+      .then(program => { if (!cancelled) setLightProgram(program); })
+      .catch((e: Error) => { if (!cancelled) setLightsError(`Lights: ${e.message}`); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleLightSequenceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          setLightProgram(parseLightSequence(JSON.parse(await file.text())));
+          setLightsError(null);
+      } catch (err) {
+          setLightsError(`Lights: ${(err as Error).message}`);
+      }
+  };
+
+  // --- SHARED SESSION ---
+  // Everyone in a room shares unleashed, the seed and the theme. Local changes
+  // are sent to the relay; its state (with timestamps) is applied everywhere.
+  const [syncSettings] = useState(() => loadSyncSettings());
+  const syncClient = useRef<SyncClient | null>(null);
+  const syncedProgress = useRef<SyncedProgress | null>(null);
+  const remote = useRef<{ unleashed: boolean | null, seed: number | null, theme: string | null }>({ unleashed: null, seed: null, theme: null });
+  const [syncStatus, setSyncStatus] = useState<{ status: SyncStatus, peers: number } | null>(null);
+
+  const handleSharedState = (state: SharedState, progress: SyncedProgress) => {
+      remote.current = { unleashed: state.unleashed, seed: state.seed, theme: state.theme };
+      syncedProgress.current = progress;
+      setUnleashed(state.unleashed);
+      if (state.seed === null) syncClient.current?.set({ seed }); // The first viewer brings the tree
+      else if (state.seed !== seed) onSharedSeed(state.seed);
+      if (state.theme === null) syncClient.current?.set({ theme: theme.name });
+      else if (state.theme !== theme.name && isThemeName(state.theme)) setTheme(state.theme);
+  };
+
+  const handleSharedStateRef = useRef(handleSharedState);
+  handleSharedStateRef.current = handleSharedState;
+
+  useEffect(() => {
+    if (!syncSettings) return;
+    const client = createSyncClient({
+        ...syncSettings,
+        onState: (state, progress) => handleSharedStateRef.current(state, progress),
+        onStatus: (status, peers) => {
+            if (status !== 'connected') syncedProgress.current = null; // Ease locally while offline
+            setSyncStatus({ status, peers });
+        },
+    });
+    syncClient.current = client;
+    return () => {
+        client.close();
+        syncClient.current = null;
+    };
+  }, [syncSettings]);
+
+  useEffect(() => {
+    if (!syncClient.current || remote.current.unleashed === null || unleashed === remote.current.unleashed) return;
+    syncedProgress.current = null; // Ease locally until the relay's stamp comes back
+    syncClient.current.set({ unleashed });
+  }, [unleashed]);
+
+  useEffect(() => {
+    if (!syncClient.current || remote.current.seed === null || seed === remote.current.seed) return;
+    syncClient.current.set({ seed });
+  }, [seed]);
+
+  useEffect(() => {
+    if (!syncClient.current || remote.current.theme === null || theme.name === remote.current.theme) return;
+    syncClient.current.set({ theme: theme.name });
+  }, [theme.name]);
+
+  // --- TIMELINE / KIOSK ---
+  // A timeline scripts the scene until someone interacts. In kiosk mode it
+  // loops, and comes back after a stretch without input.
+  const [kiosk, setKiosk] = useState<KioskSettings | null>(null);
+  const [scriptPlaying, setScriptPlaying] = useState(false);
+  const scriptedProgress = useRef<number | null>(null);
+  const scriptedCamera = useRef<TimelineSample['camera']>(null);
+  const lastInteraction = useRef(performance.now());
+  const [celebrating, setCelebrating] = useState(false);
+  const lightsBeforeCelebration = useRef<LightProgram | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadKioskSettings()
+      .then(settings => {
+        if (cancelled) return;
+        setKiosk(settings);
+        setScriptPlaying(settings.timeline !== null);
+      })
+      .catch((e: Error) => { if (!cancelled) setConfigError(`Timeline: ${e.message}`); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const stopScript = () => {
+      setScriptPlaying(false);
+      onCaption(null);
+      if (celebrating) {
+          setCelebrating(false);
+          if (lightsBeforeCelebration.current) setLightProgram(lightsBeforeCelebration.current);
+      }
+  };
+
+  const noteInteraction = () => {
+      lastInteraction.current = performance.now();
+      if (scriptPlaying) stopScript();
+  };
+
+  useEffect(() => {
+    if (!kiosk?.kiosk || !kiosk.timeline || scriptPlaying) return;
+    const timer = setInterval(() => {
+        if (performance.now() - lastInteraction.current < kiosk.idleSeconds * 1000) return;
+        setUnleashed(false);
+        setScriptPlaying(true);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [kiosk, scriptPlaying]);
+
+  const handleCue = (cue: TimelineCue) => {
+      switch (cue.type) {
+          case 'launchTopper': setTopperLaunches(n => n + 1); return;
+          case 'morph': selectMorph([cue.target]); return;
+          case 'lights': setLightProgram(cue.pattern); return;
+          case 'caption': onCaption(cue.caption); return;
+      }
+  };
+
+  // --- ADVENT CALENDAR ---
+  // The tree fills up through December; the countdown's midnight plays the celebration
+  const [adventSettings] = useState(() => loadAdventSettings(window.location.search, clock));
+  const adventClock = clock ?? adventSettings.clock;
+  const [adventNow, setAdventNow] = useState(() => adventClock().getTime());
+  const advent = adventSettings.enabled ? adventState(new Date(adventNow)) : null;
+  const adventTick = useRef(adventNow);
 
-  // Fallback interaction (Mouse)
-  const handlePointerDown = () => setUnleashed(true);
-  const handlePointerUp = () => setUnleashed(false);
-  const handlePointerMove = (e: any) => {
-      // Map screen space to -1 to 1
-      const x = (e.clientX / window.innerWidth) * 2 - 1;
-      const y = (e.clientY / window.innerHeight) * 2 - 1;
-      // Only control camera via mouse if motion energy is low (no camera user)
-      if (motionEnergy < 0.2) {
-        setHandPos({ x, y });
+  useEffect(() => {
+    if (!adventSettings.enabled) return;
+    const timer = setInterval(() => {
+        const previous = adventTick.current;
+        const now = adventClock().getTime();
+        adventTick.current = now;
+        setAdventNow(now);
+        const christmas = adventState(new Date(previous)).christmas;
+        if (previous < christmas && now >= christmas) setCelebrating(true);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [adventSettings.enabled, adventClock]);
+
+  useEffect(() => {
+    if (!celebrating) return;
+    lightsBeforeCelebration.current = lightProgram;
+    setScriptPlaying(true);
+  }, [celebrating]);
+
+  const adventDay = advent?.day ?? 0;
+  useEffect(() => {
+    if (adventDay > 0 && advent) setAnnouncement(`Advent, day ${adventDay}: ${advent.today}`);
+  }, [adventDay]);
+
+  // --- INPUT ---
+  // Every source (camera, pointer, keyboard, gamepad, replay) feeds one hub
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [hub] = useState(createInputHub);
+  const [recorder] = useState(createSessionRecorder);
+  const recording = useRef(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replaying, setReplaying] = useState(false);
+  const [treeRotation, setTreeRotation] = useState(0);
+  const [topperLaunches, setTopperLaunches] = useState(0);
+  const [gestureLabel, setGestureLabel] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!gestureLabel) return;
+    const timer = setTimeout(() => setGestureLabel(null), 1200);
+    return () => clearTimeout(timer);
+  }, [gestureLabel]);
+
+  const [mapInputEvent] = useState(createInputActionMapper);
+
+  const inputActions: InputActions = {
+      setUnleashed,
+      toggleUnleashed: () => setUnleashed(u => !u),
+      rotate: by => setTreeRotation(r => r + by),
+      resetRotation: () => setTreeRotation(0),
+      resetView: () => {
+          setTreeRotation(0);
+          setHandPos({ x: 0, y: 0 });
+      },
+      launchTopper: () => setTopperLaunches(n => n + 1),
+      nextMorph: () => selectMorph([MORPH_TARGETS[(MORPH_TARGETS.indexOf(morphTarget) + 1) % MORPH_TARGETS.length]]),
+  };
+
+  const handleInputEvent = (event: InputEvent) => {
+      if (event.type === 'swipe') setGestureLabel(`Swipe ${event.direction}`);
+      else if (event.type === 'push') setGestureLabel('Push');
+      else if (event.type === 'wave') setGestureLabel('Wave');
+      else if (event.type === 'hold') setGestureLabel('Hold');
+      mapInputEvent(event, inputActions);
+  };
+
+  const handleInput = (frame: InputFrame) => {
+      if (frame.source !== 'replay' && (frame.active || frame.events.length > 0)) noteInteraction();
+      if (frame.source === 'webcam' || frame.source === 'replay') setMotionEnergy(frame.energy);
+      if (frame.active) setHandPos({ x: frame.cx, y: frame.cy });
+      // While hanging an ornament, clicks pick a spot instead of unleashing
+      if (placingOrnament && frame.source === 'pointer') return;
+      frame.events.forEach(handleInputEvent);
+  };
+
+  // The hub subscription is made once; route it to the latest render's handler
+  const handleInputRef = useRef(handleInput);
+  handleInputRef.current = handleInput;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const unsubscribe = hub.subscribe(frame => handleInputRef.current(frame));
+    const removers = [
+      hub.add(createPointerSource(container)),
+      hub.add(createKeyboardSource()),
+      hub.add(createGamepadSource()),
+    ];
+    return () => {
+      removers.forEach(remove => remove());
+      unsubscribe();
+    };
+  }, [hub, recorder]);
+
+  // The webcam is only opened while enabled; switching it off (or unmounting) releases the device
+  useEffect(() => {
+    if (!cameraSettings.enabled) return;
+    camera.start(cameraSettings.deviceId);
+    const remove = hub.add(createWebcamSource(camera, {
+        view: motionView,
+        onMotion: frame => { if (recording.current) recorder.add(frame); },
+    }));
+    return () => {
+        remove();
+        camera.stop();
+    };
+  }, [hub, recorder, camera, motionView, cameraSettings]);
+
+  // Screen reader announcements follow the scene state, whichever input changed it
+  const announced = useRef<AnnouncedState>({ unleashed, morphTarget, rotation: treeRotation, topperLaunches });
+
+  useEffect(() => {
+    const next = { unleashed, morphTarget, rotation: treeRotation, topperLaunches };
+    const message = describeChange(announced.current, next, reducedMotion);
+    announced.current = next;
+    if (message) setAnnouncement(message);
+  }, [unleashed, morphTarget, treeRotation, topperLaunches]);
+
+  // --- AUDIO ---
+  const [audioEngine] = useState(createAudioEngine);
+  const audioReaction = useRef(createAudioReaction());
+  const bloomRef = useRef<BloomEffect>(null);
+  const [audioMappings, setAudioMappings] = useState<AudioMappings>(loadAudioMappings);
+  const [audioInput, setAudioInput] = useState<AudioInputKind | null>(null);
+  const [audioPlaying, setAudioPlaying] = useState(false);
+  const [audioError, setAudioError] = useState<string | null>(null);
+
+  useEffect(() => saveAudioMappings(audioMappings), [audioMappings]);
+  useEffect(() => () => audioEngine.stop(), [audioEngine]);
+
+  const runAudio = async (action: () => Promise<void> | void) => {
+      try {
+          await action();
+          setAudioError(null);
+      } catch (e) {
+          setAudioError(`Audio unavailable: ${(e as Error).message}`);
       }
+      setAudioInput(audioEngine.getInput());
+      setAudioPlaying(audioEngine.isPlaying());
   };
 
-  const handleGestureUpdate = (energy: number, cx: number, cy: number) => {
-      setMotionEnergy(energy);
-      // If significant motion, update position and trigger unleash
-      if (energy > 0.15) { 
-        setHandPos({ x: -cx, y: cy }); // Mirror x
+  const toggleAudio = () => runAudio(() => (audioEngine.isPlaying() ? audioEngine.pause() : audioEngine.play()));
+
+  // --- CAPTURE ---
+  const captureApi = useRef<CaptureApi | null>(null);
+  const [captureStatus, setCaptureStatus] = useState<string | null>(null);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+
+  const runCapture = async (status: string, action: (api: CaptureApi) => Promise<void>, failure = "Capture failed") => {
+      const api = captureApi.current;
+      if (!api || captureStatus) return;
+      setCaptureStatus(status);
+      setCaptureError(null);
+      try {
+          await action(api);
+      } catch (e) {
+          setCaptureError(`${failure}: ${(e as Error).message}`);
       }
-      
-      // Threshold logic: High energy = Unleash (Open hand/Waving), Low = Tree
-      if (energy > 0.35) {
-          setUnleashed(true);
-      } else if (energy < 0.1) {
-          setUnleashed(false);
+      setCaptureStatus(null);
+  };
+
+  const takeScreenshot = () => runCapture("Capturing…", async api => {
+      downloadBlob(await canvasToBlob(await api.grabFrame()), `tree-${seed}.png`);
+  });
+
+  const renderPoster = () => runCapture("Rendering…", async api => {
+      const poster = await composePoster(await api.grabFrameAt(POSTER_WIDTH), theme, `Tree No. ${seed}`);
+      downloadBlob(await canvasToBlob(poster), `tree-${seed}-poster.png`);
+  });
+
+  // Rebuilt from the seed, config and what the scene currently shows, so it needs nothing from the canvas
+  const exportModel = (options: ExportOptions) => runCapture("Exporting…", async () => {
+      await new Promise(resolve => setTimeout(resolve)); // Let the status show before the busy work
+      const scene = {
+          morphTarget,
+          morphText: morphSettings.text,
+          ornamentShare: advent?.ornamentShare ?? 1,
+          customOrnaments,
+          foliage: tuning.foliage,
+      };
+      downloadBlob(await exportTreeModel(treeConfig, seed, theme, options, scene), `tree-${seed}.${options.format}`);
+  }, "Export failed");
+
+  const recordClip = () => runCapture("Recording…", async api => {
+      const clip = await api.recordClip(CLIP_FPS, fraction => setCaptureStatus(`Recording ${Math.round(fraction * 100)}%`));
+      downloadBlob(clip, `tree-${seed}.webm`);
+  });
+
+  // --- PERSONAL ORNAMENTS ---
+  const [customOrnaments, setCustomOrnaments] = useState<CustomOrnament[]>(loadCustomOrnaments);
+  const [placingOrnament, setPlacingOrnament] = useState(false);
+  const [pendingOrnament, setPendingOrnament] = useState<Vector3Array | null>(null);
+  const [ornamentError, setOrnamentError] = useState<string | null>(null);
+
+  useEffect(() => saveCustomOrnaments(customOrnaments), [customOrnaments]);
+
+  const startPlacing = () => {
+      setUnleashed(false); // Hang on the formed tree
+      setPlacingOrnament(true);
+      setPendingOrnament(null);
+      setOrnamentError(null);
+  };
+
+  const cancelPlacing = () => {
+      setPlacingOrnament(false);
+      setPendingOrnament(null);
+  };
+
+  const confirmOrnament = (details: Parameters<typeof createCustomOrnament>[2]) => {
+      if (!pendingOrnament) return;
+      const ornament = createCustomOrnament(pendingOrnament, treeConfig, details);
+      setCustomOrnaments(list => mergeCustomOrnaments(list, [ornament]));
+      cancelPlacing();
+  };
+
+  const importOrnaments = async (file: File) => {
+      try {
+          const imported = parseCustomOrnaments(JSON.parse(await file.text()));
+          setCustomOrnaments(list => mergeCustomOrnaments(list, imported));
+          setOrnamentError(null);
+      } catch (e) {
+          setOrnamentError(`Import failed: ${(e as Error).message}`);
       }
   };
 
+  const clearOrnaments = () => {
+      if (window.confirm(`Remove all ${customOrnaments.length} ornaments from this tree?`)) setCustomOrnaments([]);
+  };
+
+  // --- RECORD / REPLAY ---
+  const toggleRecording = () => {
+      if (recording.current) {
+          recording.current = false;
+          downloadJson(recorder.finish(), `tree-session-${Date.now()}.json`);
+      } else {
+          recording.current = true;
+      }
+      setIsRecording(recording.current);
+  };
+
+  const startReplay = (session: RecordedSession, loop = false) => {
+      setReplaying(true);
+      const remove = hub.add(createReplaySource(session, {
+          loop,
+          onEnd: () => {
+              // Defer: the source is still inside its own tick
+              setTimeout(() => remove(), 0);
+              setReplaying(false);
+              setUnleashed(false);
+          },
+      }));
+      return remove;
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          startReplay(parseRecordedSession(JSON.parse(await file.text())));
+      } catch (err) {
+          console.error("Could not replay session", err);
+      }
+  };
+
+  // ?replay=/sessions/demo.json plays a recording on a loop (demos without a camera)
+  useEffect(() => {
+    const url = new URLSearchParams(window.location.search).get('replay');
+    if (!url) return;
+    const controller = new AbortController();
+    let aborted = false;
+    let remove: (() => void) | null = null;
+    fetchRecordedSession(url, controller.signal)
+      .then(session => {
+        if (!aborted) remove = startReplay(session, true);
+      })
+      .catch(err => {
+        if (!aborted) console.error(`Could not load replay from ${url}`, err);
+      });
+    return () => {
+      aborted = true;
+      controller.abort();
+      remove?.();
+    };
+  }, []);
+
   return (
-    <div 
+    <div
+        ref={containerRef}
         className="w-full h-full"
-        onPointerDown={handlePointerDown}
-        onPointerUp={handlePointerUp}
-        onPointerMove={handlePointerMove}
+        tabIndex={0}
+        role="application"
+        aria-label={`${theme.texts.name} ${theme.texts.title}`}
+        aria-describedby="keyboard-help"
     >
         <Canvas 
         shadows 
-        dpr={[1, 2]} 
+        dpr={quality.dpr} 
         gl={{ antialias: false, toneMappingExposure: 1.0 }}
         camera={{ position: [0, 4, 18], fov: 35 }}
         >
         
-        <color attach="background" args={['#000502']} />
-        <fog attach="fog" args={['#000502', 10, 40]} />
+        <color attach="background" args={[theme.palette.background]} />
+        <fog attach="fog" args={[theme.palette.background, tuning.fog.near, tuning.fog.far]} />
 
         <Suspense fallback={null}>
-            <GestureManager onUpdate={handleGestureUpdate} />
-            <CameraController targetX={handPos.x} targetY={handPos.y} />
+            <InputManager hub={hub} />
+            <QualityMonitor enabled={qualityMode === 'auto'} tierIndex={autoTierIndex} onChange={setAutoTierIndex} />
+            <AudioDriver engine={audioEngine} reaction={audioReaction} mappings={audioMappings} bloom={bloomRef} baseBloom={theme.bloom * tuning.bloom.intensity} />
+            <CaptureController api={captureApi} onScript={setUnleashed} />
+            <TimelineDriver
+                timeline={celebrating ? CELEBRATION_TIMELINE : kiosk?.timeline ?? null}
+                playing={scriptPlaying}
+                loop={!celebrating && (kiosk?.kiosk ?? false)}
+                progress={scriptedProgress}
+                camera={scriptedCamera}
+                onCue={handleCue}
+                onEnd={stopScript}
+            />
+            <CameraController targetX={handPos.x} targetY={handPos.y} script={scriptedCamera} parallax={!reducedMotion} />
 
             {/* Cinematic Lighting */}
-            <ambientLight intensity={0.2} />
+            <ambientLight intensity={tuning.lights.ambient} />
             <spotLight 
-            position={[10, 15, 10]} 
+            position={tuning.lights.key.position} 
             angle={0.2} 
             penumbra={1} 
-            intensity={20} 
-            castShadow 
+            intensity={tuning.lights.key.intensity} 
+            castShadow={quality.shadows}
             shadow-bias={-0.0001}
-            color="#ffeebf"
+            color={tuning.lights.key.color ?? theme.lights.key}
             />
-            <pointLight position={[-10, 5, -5]} intensity={5} color="#00ff88" distance={20} />
-            <pointLight position={[5, -2, 5]} intensity={5} color="#FFD700" distance={15} />
+            <pointLight position={tuning.lights.fill.position} intensity={tuning.lights.fill.intensity} color={tuning.lights.fill.color ?? theme.lights.fill} distance={20} />
+            <pointLight position={tuning.lights.accent.position} intensity={tuning.lights.accent.intensity} color={tuning.lights.accent.color ?? theme.lights.accent} distance={15} />
 
             {/* Main Content */}
             <group position={[0, -2, 0]}>
-                <LuxuryTree isUnleashed={unleashed} />
+                <LuxuryTree
+                    isUnleashed={unleashed}
+                    config={treeConfig}
+                    seed={seed}
+                    morphTarget={morphTarget}
+                    morphText={morphSettings.text}
+                    rotationY={treeRotation}
+                    topperLaunches={topperLaunches}
+                    detail={quality.detail}
+                    customOrnaments={customOrnaments}
+                    placingOrnament={placingOrnament}
+                    pendingOrnament={pendingOrnament}
+                    onPlaceOrnament={setPendingOrnament}
+                    audio={audioReaction}
+                    lightProgram={lightProgram}
+                    wind={snow.wind}
+                    progressOverride={scriptedProgress}
+                    progressSync={syncedProgress}
+                    reducedMotion={reducedMotion}
+                    getTouches={() => hub.touches(performance.now())}
+                    physics={physics}
+                    ornamentShare={advent?.ornamentShare ?? 1}
+                    showLights={advent?.unlocked.lights ?? true}
+                    showTopper={advent?.unlocked.topper ?? true}
+                    handPos={handPos}
+                    damping={tuning.damping}
+                    foliageStyle={tuning.foliage}
+                />
+
+                {/* Snow settles on the floor and is blown away by the explosion */}
+                <Snowfall
+                    count={advent && !advent.unlocked.snow ? 0 : Math.round(snow.density * quality.detail)}
+                    wind={snow.wind}
+                    floorY={-2.45}
+                    unleashed={unleashed && !reducedMotion}
+                    handPos={handPos}
+                    seed={seed}
+                />
                 
-                {/* Mirror Floor */}
+                {/* Mirror Floor (plain on the lowest tier) */}
                 <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -2.5, 0]}>
                     <planeGeometry args={[100, 100]} />
+                    {quality.reflector ? (
                     <MeshReflectorMaterial
-                    blur={[300, 100]}
-                    resolution={1024}
+                    blur={quality.reflector.blur}
+                    resolution={quality.reflector.resolution}
                     mixBlur={1}
-                    mixStrength={60}
+                    mixStrength={tuning.reflector.mixStrength}
                     roughness={0.5}
                     depthScale={1.2}
                     minDepthThreshold={0.4}
                     maxDepthThreshold={1.4}
-                    color="#000502"
+                    color={theme.palette.floor}
                     metalness={0.8}
-                    mirror={0.7}
+                    mirror={tuning.reflector.mirror}
                     />
+                    ) : (
+                    <meshStandardMaterial color={theme.palette.floor} metalness={0.8} roughness={0.5} />
+                    )}
                 </mesh>
             </group>
 
             <Environment preset="lobby" />
 
             {/* Post Processing: The "Trump" Gold Glow */}
+            {quality.post === 'full' && (
             <EffectComposer enableNormalPass={false}>
                 <Bloom 
-                    luminanceThreshold={0.6} // Glows easily
+                    ref={bloomRef}
+                    luminanceThreshold={tuning.bloom.threshold} // Glows easily
                     mipmapBlur 
-                    intensity={1.5} 
-                    radius={0.4} 
+                    intensity={theme.bloom * tuning.bloom.intensity} 
+                    radius={tuning.bloom.radius} 
                 />
-                <Vignette eskil={false} offset={0.1} darkness={1.1} />
-                <Noise opacity={0.05} />
+                <Vignette eskil={false} offset={tuning.vignette.offset} darkness={tuning.vignette.darkness} />
+                <Noise opacity={tuning.noise.opacity} />
+            </EffectComposer>
+            )}
+            {quality.post === 'reduced' && (
+            <EffectComposer enableNormalPass={false} multisampling={0}>
+                <Bloom ref={bloomRef} luminanceThreshold={tuning.bloom.threshold} intensity={theme.bloom * tuning.bloom.intensity} radius={tuning.bloom.radius} />
+                <Vignette eskil={false} offset={tuning.vignette.offset} darkness={tuning.vignette.darkness} />
             </EffectComposer>
+            )}
 
         </Suspense>
         </Canvas>
         
-        {/* Webcam Debug UI (Small corner view to confirm it's working) */}
-        <div className="absolute bottom-4 left-4 w-24 h-24 border border-gold/30 opacity-50 overflow-hidden rounded-lg pointer-events-none">
-             <div className="w-full h-full bg-black flex items-center justify-center text-[8px] text-white text-center">
-                CAMERA INPUT<br/>ACTIVE
-             </div>
-        </div>
+        {/* Webcam status and live preview */}
+        <CameraPreview
+            state={cameraState}
+            video={camera.video}
+            view={motionView}
+            onEnable={() => changeCameraSettings({ enabled: true })}
+            onDisable={() => changeCameraSettings({ enabled: false })}
+            onRetry={() => camera.start(cameraSettings.deviceId)}
+            onPause={camera.pause}
+            onResume={camera.resume}
+            onSelectDevice={deviceId => changeCameraSettings({ deviceId })}
+        />
+
+        {/* Spoken state changes and keyboard help for screen readers */}
+        <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+        <p id="keyboard-help" className="sr-only">{KEYBOARD_HELP}</p>
         
+        {/* Shared session status */}
+        {syncStatus && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 font-accent text-[9px] tracking-[0.2em] uppercase text-accent/70 pointer-events-none">
+                {syncStatus.status === 'connected' ? `Shared · ${syncStatus.peers} ${syncStatus.peers === 1 ? 'screen' : 'screens'}` : `Shared · ${syncStatus.status}…`}
+            </div>
+        )}
+
+        {/* Config or timeline load failure (the default tree is shown instead) */}
+        {configError && (
+            <div className="absolute top-4 right-4 max-w-sm p-3 rounded-lg bg-black/70 border border-red-500/50 text-red-300 text-[10px] font-mono whitespace-pre-wrap pointer-events-none">
+                {configError}
+            </div>
+        )}
+
+        {/* Personal ornaments */}
+        <OrnamentPanel
+            placing={placingOrnament}
+            hasPending={pendingOrnament !== null}
+            count={customOrnaments.length}
+            error={ornamentError}
+            onStartPlacing={startPlacing}
+            onCancel={cancelPlacing}
+            onConfirm={confirmOrnament}
+            onExport={() => downloadJson(toCustomOrnamentFile(customOrnaments), 'tree-ornaments.json')}
+            onImport={importOrnaments}
+            onClear={clearOrnaments}
+        />
+
+        {/* Developer look tuning (toggled with the ` key) */}
+        <TuningPanel tuning={tuning} onChange={setTuning} />
+
+        {/* Audio-reactive mode */}
+        <AudioPanel
+            input={audioInput}
+            playing={audioPlaying}
+            error={audioError}
+            mappings={audioMappings}
+            onMicrophone={() => runAudio(audioEngine.startMicrophone)}
+            onFile={file => runAudio(() => audioEngine.startFile(file))}
+            onTogglePlay={toggleAudio}
+            onStop={() => runAudio(audioEngine.stop)}
+            onMappingsChange={setAudioMappings}
+        />
+
+        {/* Quality tier: indicator + manual override */}
+        <label className="absolute top-4 left-4 md:top-auto md:bottom-4 md:left-32 flex items-center gap-2 font-accent text-[9px] tracking-[0.2em] uppercase text-accent/70">
+            Quality
+            <select
+                value={qualityMode}
+                onChange={e => isQualityMode(e.target.value) && setQualityMode(e.target.value)}
+                className="bg-black/60 border border-accent/30 rounded px-1 py-0.5 text-accent uppercase"
+            >
+                <option value="auto">Auto ({QUALITY_TIERS[autoTierIndex].label})</option>
+                {QUALITY_TIERS.map(tier => (
+                    <option key={tier.name} value={tier.name}>{tier.label}</option>
+                ))}
+            </select>
+        </label>
+
+        {/* String-light pattern (or a custom keyframed sequence) */}
+        <div className="absolute top-10 left-4 md:top-auto md:bottom-10 md:left-32 flex flex-col gap-1 font-accent text-[9px] tracking-[0.2em] uppercase text-accent/70">
+            <div className="flex items-center gap-2">
+                Lights
+                <select
+                    value={lightProgramLabel(lightProgram)}
+                    onChange={e => isLightPatternName(e.target.value) && setLightProgram(e.target.value)}
+                    className="bg-black/60 border border-accent/30 rounded px-1 py-0.5 text-accent uppercase"
+                >
+                    {LIGHT_PATTERNS.map(name => <option key={name} value={name}>{name}</option>)}
+                    {typeof lightProgram !== 'string' && <option value={lightProgram.name}>{lightProgram.name}</option>}
+                </select>
+                <label className="px-2 py-0.5 rounded border border-accent/30 hover:border-accent transition-colors cursor-pointer">
+                    Load
+                    <input type="file" accept="application/json,.json" className="hidden" onChange={handleLightSequenceFile} />
+                </label>
+            </div>
+            {lightsError && <span className="normal-case tracking-normal font-mono text-red-300">{lightsError}</span>}
+        </div>
+
+        {/* Screenshots, posters and clips */}
+        <CaptureMenu
+            status={captureStatus}
+            error={captureError}
+            canRecordClip={isClipRecordingSupported()}
+            onScreenshot={takeScreenshot}
+            onPoster={renderPoster}
+            onClip={recordClip}
+            onExport={exportModel}
+        />
+
+        {/* Session recording / replay */}
+        <div className="absolute bottom-32 left-4 flex flex-col gap-2 font-accent text-[9px] tracking-[0.2em] uppercase text-accent">
+            <button onClick={toggleRecording} className="px-2 py-1 rounded border border-accent/30 hover:border-accent transition-colors">
+                {isRecording ? "■ Save Session" : "● Record"}
+            </button>
+            <label className="px-2 py-1 rounded border border-accent/30 hover:border-accent transition-colors cursor-pointer text-center">
+                {replaying ? "Replaying…" : "Replay"}
+                <input type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} disabled={replaying} />
+            </label>
+        </div>
+
+        {/* Morph target picker (controls are ignored by the pointer source) */}
+        <div className="absolute bottom-4 right-4 flex gap-2 font-accent text-[9px] tracking-[0.2em] uppercase">
+            {MORPH_TARGETS.map(name => (
+                <button
+                    key={name}
+                    onClick={() => selectMorph([name])}
+                    className={`px-2 py-1 rounded border transition-colors ${morphSequence.length === 1 && morphTarget === name ? 'border-accent text-accent' : 'border-accent/30 text-accent/60 hover:text-accent'}`}
+                >
+                    {name}
+                </button>
+            ))}
+            <button
+                onClick={() => selectMorph(MORPH_TARGETS)}
+                className={`px-2 py-1 rounded border transition-colors ${morphSequence.length > 1 ? 'border-accent text-accent' : 'border-accent/30 text-accent/60 hover:text-accent'}`}
+            >
+                Cycle
+            </button>
+            <button
+                onClick={() => setPhysics(on => !on)}
+                aria-pressed={physics}
+                title="Ornaments fall, bounce and spring back instead of floating"
+                className={`px-2 py-1 rounded border transition-colors ${physics ? 'border-accent text-accent' : 'border-accent/30 text-accent/60 hover:text-accent'}`}
+            >
+                Physics
+            </button>
+        </div>
+
+        {/* Advent countdown */}
+        {advent && <AdventCountdown advent={advent} />}
+
         {/* Interaction hint */}
-        <div className="absolute bottom-10 w-full text-center pointer-events-none transition-opacity duration-500" style={{ opacity: unleashed ? 0 : 1 }}>
-            <p className="text-[#FFD700] font-['Cinzel'] text-sm tracking-[0.3em] uppercase drop-shadow-[0_0_10px_rgba(255,215,0,0.5)]">
-                {motionEnergy > 0 ? "Wave Hand to Unleash" : "Tap & Hold or Wave Camera"}
+        <div className="absolute bottom-10 w-full text-center pointer-events-none transition-opacity duration-500" style={{ opacity: unleashed && !gestureLabel ? 0 : 1 }}>
+            <p className="text-accent font-accent text-sm tracking-[0.3em] uppercase drop-shadow-[0_0_10px_rgb(var(--theme-accent)/0.5)]">
+                {gestureLabel ?? (cameraState.status !== 'active' ? "Touch to Scatter · Hold or Press Space" : motionEnergy > 0 ? "Wave Hand to Unleash" : "Tap & Hold or Wave Camera")}
             </p>
         </div>
     </div>
@@ -0,0 +1,237 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MathUtils } from 'three';
+import { TreeConfig } from './types';
+import { GUARDIAN_UNLEASHED, GuardianPlacement, generateGuardians } from './treeGenerator';
+import { Rng, deriveRng } from './random';
+import { useTheme } from './ThemeContext';
+import { playMeow } from './meow';
+import { claimPointerEvent } from './inputSources';
+
+// --- THE GUARDIANS ---
+// Gold cats sitting around the base. Their heads follow the hand while it
+// moves and the camera otherwise; they blink, flick an ear, breathe and swish
+// their tails, and a click makes one spin round with glowing eyes and meow.
+
+interface GuardianCatsProps {
+  config: TreeConfig;
+  seed: number;
+  progress: React.MutableRefObject<number>;
+  handPos?: { x: number, y: number }; // Screen space, -1..1 (as InputFrame cx/cy)
+  reducedMotion?: boolean;            // No spin; slower heads and a calmer tail
+}
+
+const HEAD_POSITION = new THREE.Vector3(0, 3.2, 0.4);
+const MAX_YAW = 1.1;        // Radians a head turns over its shoulder
+const MAX_PITCH = 0.45;
+const HAND_ATTENTION = 2.5; // Seconds the heads keep following a hand after it stops
+const HAND_DISTANCE = 10;   // How far in front of the camera the hand is looked at
+
+const BLINK_DURATION = 0.16;
+const FLICK_DURATION = 0.25;
+const SPIN_DURATION = 0.9;
+const GLOW_DECAY = 2.5;     // Per second
+const TAIL_SEGMENTS = 5;
+
+const goldMaterial = { metalness: 0.95, roughness: 0.05, envMapIntensity: 3 };
+
+// 1 while open, down to 0 halfway through a blink
+const eyeOpenness = (sinceBlink: number) =>
+  sinceBlink < 0 || sinceBlink > BLINK_DURATION ? 1 : Math.abs(1 - (2 * sinceBlink) / BLINK_DURATION);
+
+const nextBlinkAfter = (time: number, rng: Rng) => time + 2 + rng() * 5;
+
+const scratch = new THREE.Vector3();
+
+export const GuardianCats: React.FC<GuardianCatsProps> = ({ config, seed, progress, handPos, reducedMotion = false }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const cats = useMemo(() => generateGuardians(config), [config]);
+
+  // Where every head looks this frame, in world space
+  const lookTarget = useRef(new THREE.Vector3(0, 4, 18));
+  const lastHand = useRef({ x: 0, y: 0, movedAt: -Infinity });
+
+  useFrame((state) => {
+    if (groupRef.current) {
+      const t = progress.current;
+      // Guardians slide outwards when unleashed to make room for chaos
+      groupRef.current.scale.setScalar(1 + t * GUARDIAN_UNLEASHED.growth);
+      const spread = 1 + t * GUARDIAN_UNLEASHED.spread;
+      groupRef.current.children.forEach((child, i) => {
+        child.position.x = cats[i].x * spread;
+        child.position.z = cats[i].z * spread;
+      });
+    }
+
+    // A moving hand catches their eye; once it rests they look back at the viewer
+    const now = state.clock.elapsedTime;
+    if (handPos && (handPos.x !== lastHand.current.x || handPos.y !== lastHand.current.y)) {
+      lastHand.current = { x: handPos.x, y: handPos.y, movedAt: now };
+    }
+    const { camera } = state;
+    if (now - lastHand.current.movedAt < HAND_ATTENTION) {
+      scratch.set(lastHand.current.x, -lastHand.current.y, 0.5).unproject(camera).sub(camera.position).normalize();
+      lookTarget.current.copy(camera.position).addScaledVector(scratch, HAND_DISTANCE);
+    } else {
+      lookTarget.current.copy(camera.position);
+    }
+  });
+
+  return (
+    <group ref={groupRef}>
+      {cats.map((cat, i) => (
+        <GuardianCat key={i} placement={cat} seed={seed} index={i} lookTarget={lookTarget} reducedMotion={reducedMotion} />
+      ))}
+    </group>
+  );
+};
+
+interface GuardianCatProps {
+  placement: GuardianPlacement;
+  seed: number;
+  index: number;
+  lookTarget: React.MutableRefObject<THREE.Vector3>;
+  reducedMotion: boolean;
+}
+
+const GuardianCat: React.FC<GuardianCatProps> = ({ placement, seed, index, lookTarget, reducedMotion }) => {
+  const { theme } = useTheme();
+  const seatRef = useRef<THREE.Group>(null);
+  const spinRef = useRef<THREE.Group>(null);
+  const bodyRef = useRef<THREE.Mesh>(null);
+  const headRef = useRef<THREE.Group>(null);
+  const earRefs = useRef<(THREE.Mesh | null)[]>([]);
+  const eyeRefs = useRef<(THREE.Mesh | null)[]>([]);
+  const eyeMaterialRefs = useRef<(THREE.MeshStandardMaterial | null)[]>([]);
+  const tailRefs = useRef<(THREE.Group | null)[]>([]);
+
+  // Each cat keeps its own rhythm: blink times, tail phase and voice
+  const [rng] = useState(() => deriveRng(seed, `guardian-${index}`));
+  const [mood] = useState(() => ({
+    nextBlink: nextBlinkAfter(0, rng),
+    blinkAt: -Infinity,
+    flickAt: -Infinity,
+    flickSide: 0,
+    spinAt: -Infinity,
+    glow: 0,
+    phase: rng() * Math.PI * 2,
+    pitch: 0.85 + rng() * 0.35,
+  }));
+  const clicked = useRef(false);
+
+  useFrame((state, delta) => {
+    const now = state.clock.elapsedTime;
+    if (clicked.current) {
+      clicked.current = false;
+      mood.glow = 1;
+      if (!reducedMotion && now - mood.spinAt > SPIN_DURATION) mood.spinAt = now;
+    }
+
+    // Blinks, and now and then an ear flick with them
+    if (now >= mood.nextBlink) {
+      mood.blinkAt = now;
+      mood.nextBlink = nextBlinkAfter(now, rng);
+      if (rng() < 0.35) {
+        mood.flickAt = now;
+        mood.flickSide = rng() < 0.5 ? 0 : 1;
+      }
+    }
+    const open = Math.max(eyeOpenness(now - mood.blinkAt), 0.08);
+    eyeRefs.current.forEach(eye => eye?.scale.set(1, open, 1));
+    const flick = now - mood.flickAt < FLICK_DURATION ? Math.sin((Math.PI * (now - mood.flickAt)) / FLICK_DURATION) : 0;
+    earRefs.current.forEach((ear, side) => {
+      if (ear) ear.rotation.x = side === mood.flickSide ? -flick * 0.6 : 0;
+    });
+
+    mood.glow *= Math.exp(-GLOW_DECAY * delta);
+    eyeMaterialRefs.current.forEach(material => { if (material) material.emissiveIntensity = 2 + mood.glow * 8; });
+
+    // Spin once round on the plinth
+    if (spinRef.current) {
+      const spin = Math.min((now - mood.spinAt) / SPIN_DURATION, 1);
+      spinRef.current.rotation.y = MathUtils.smootherstep(spin, 0, 1) * Math.PI * 2;
+    }
+
+    // Head tracking, within what a neck allows
+    const seat = seatRef.current;
+    const head = headRef.current;
+    if (seat && head) {
+      const local = seat.worldToLocal(scratch.copy(lookTarget.current)).sub(HEAD_POSITION);
+      const yaw = MathUtils.clamp(Math.atan2(local.x, local.z), -MAX_YAW, MAX_YAW);
+      const pitch = MathUtils.clamp(-Math.atan2(local.y, Math.hypot(local.x, local.z)), -MAX_PITCH, MAX_PITCH);
+      const speed = reducedMotion ? 1.5 : 4;
+      head.rotation.y = MathUtils.damp(head.rotation.y, yaw, speed, delta);
+      head.rotation.x = MathUtils.damp(head.rotation.x, pitch, speed, delta);
+    }
+
+    // Idle: breathing and a swishing tail
+    if (bodyRef.current) bodyRef.current.scale.setScalar(1 + Math.sin(now * 1.3 + mood.phase) * 0.015);
+    const swish = reducedMotion ? 0.1 : 0.3;
+    tailRefs.current.forEach((segment, k) => {
+      if (segment) segment.rotation.z = Math.sin(now * 1.7 + mood.phase - k * 0.6) * swish;
+    });
+  });
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    clicked.current = true;
+    playMeow(mood.pitch);
+  };
+
+  // Tail: a chain of segments, each curling up from the last
+  const tail = Array.from({ length: TAIL_SEGMENTS }).reduceRight<React.ReactNode>((child, _, k) => (
+    <group ref={el => { tailRefs.current[k] = el; }} rotation={[k === 0 ? -1.25 : 0.35, 0, 0]} position={[0, k === 0 ? 0 : 0.35, 0]}>
+      <mesh castShadow position={[0, 0.175, 0]}>
+        <cylinderGeometry args={[0.09 - k * 0.01, 0.1 - k * 0.01, 0.35, 12]} />
+        <meshStandardMaterial color={theme.palette.accent} {...goldMaterial} />
+      </mesh>
+      {child}
+    </group>
+  ), null);
+
+  return (
+    <group ref={seatRef} position={[placement.x, -4.5, placement.z]} rotation={[0, placement.rot, 0]}>
+      <group
+        ref={spinRef}
+        onClick={handleClick}
+        onPointerDown={e => { e.stopPropagation(); claimPointerEvent(e.nativeEvent); }}
+        onPointerOver={e => { e.stopPropagation(); document.body.style.cursor = 'pointer'; }}
+        onPointerOut={() => { document.body.style.cursor = ''; }}
+      >
+        <mesh ref={bodyRef} castShadow receiveShadow position={[0, 1.5, 0]}>
+          {/* Body - Sleek Egyptian Style */}
+          <cylinderGeometry args={[0.6, 1.0, 3, 32]} />
+          <meshStandardMaterial color={theme.palette.accent} {...goldMaterial} />
+        </mesh>
+        <group ref={headRef} position={HEAD_POSITION.toArray()}>
+          <mesh>
+            {/* Head */}
+            <sphereGeometry args={[0.7, 32, 32]} />
+            <meshStandardMaterial color={theme.palette.accent} {...goldMaterial} />
+          </mesh>
+          {[-1, 1].map((side, k) => (
+            <mesh key={`ear-${side}`} ref={el => { earRefs.current[k] = el; }} position={[side * 0.3, 0.6, 0]} rotation={[0, 0, -side * 0.5]}>
+              <coneGeometry args={[0.2, 0.7, 32]} />
+              <meshStandardMaterial color={theme.palette.accent} metalness={0.95} roughness={0.05} />
+            </mesh>
+          ))}
+          {[-1, 1].map((side, k) => (
+            <mesh key={`eye-${side}`} ref={el => { eyeRefs.current[k] = el; }} position={[side * 0.2, 0.1, 0.6]}>
+              <sphereGeometry args={[0.1, 16, 16]} />
+              <meshStandardMaterial ref={el => { eyeMaterialRefs.current[k] = el; }} color={theme.palette.eyes} emissive={theme.palette.eyes} emissiveIntensity={2} />
+            </mesh>
+          ))}
+        </group>
+        <group position={[0, 0.25, -0.85]}>
+          {tail}
+        </group>
+      </group>
+      {/* Base Plinth */}
+      <mesh position={[0, -0.2, 0]}>
+        <boxGeometry args={[2.5, 0.4, 2.5]} />
+        <meshStandardMaterial color={theme.palette.plinth} metalness={0.5} roughness={0.5} />
+      </mesh>
+    </group>
+  );
+};
@@ -1,22 +1,73 @@
-import React, { useMemo, useRef, useEffect } from 'react';
+import React, { useMemo, useRef, useEffect, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Instance, Instances, Float, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
-import { Color, MathUtils } from 'three';
+import { MathUtils } from 'three';
+import { CustomOrnament, MorphTargetName, TouchPoint, TreeConfig, Vector3Array } from './types';
+import { DEFAULT_TREE_CONFIG } from './treeConfig';
+import { generateFoliage, generateGuardians, generateLights, generateOrnaments, toFoliageBuffers, topperHeights } from './treeGenerator';
+import { deriveRng } from './random';
+import { MorphState, createMorphState, generateMorphTarget, retargetMorph, treeMorphOptions } from './morphTargets';
+import { OrnamentSystem } from './OrnamentSystem';
+import { CustomOrnaments } from './CustomOrnaments';
+import { AudioReaction } from './audio';
+import { LightProgram } from './lightPatterns';
+import { StringLights } from './StringLights';
+import { GuardianCats } from './GuardianCats';
+import { SyncedProgress, progressAfter } from './sync';
+import { useTheme } from './ThemeContext';
+import { REDUCED_MOTION } from './accessibility';
+import { FORCE_FIELD_GLSL, FORCE_PUSH, MAX_FORCE_POINTS, createForceField } from './forceField';
+import { createOrnamentPhysics } from './ornamentPhysics';
+import { DEFAULT_SCENE_TUNING, FOLIAGE_EASINGS, FOLIAGE_WAVES, SceneTuning } from './sceneTuning';
 
 // --- SHADER FOR FOLIAGE ---
-// This allows us to morph 15,000 needles efficiently on the GPU
+// This allows us to morph 15,000 needles efficiently on the GPU.
+// Motion and look come from the scene tuning's foliage section (uniforms below)
 const foliageVertexShader = `
+  ${FORCE_FIELD_GLSL}
   uniform float uProgress;
   uniform float uTime;
-  attribute vec3 aChaosPos;
+  uniform float uMorphBlend;
+  uniform float uShimmer;
+  uniform vec2 uWind;
+  uniform int uEasing;          // Index into FOLIAGE_EASINGS
+  uniform int uWave;            // Index into FOLIAGE_WAVES
+  uniform float uStagger;       // Share of the morph spent waiting for a needle's turn
+  uniform vec2 uExtent;         // Tree height and base radius, to order the wave
+  uniform float uTwinkle;
+  uniform float uSway;
+  uniform float uNeedleSize;    // World units
+  uniform float uViewportHeight; // Drawing buffer pixels
+  attribute vec3 aChaosPos;     // Current morph destination
+  attribute vec3 aMorphFromPos; // Previous morph destination, crossfaded out
   attribute float aSpeed;
+  attribute float aTip;         // 1 for needles in the tip color
   
   varying vec3 vColor;
+  varying float vShimmer;
+  varying float vTwinkle;
+
+  float ease(float p) {
+    if (uEasing == 1) return p < 0.5 ? 4.0 * p * p * p : 1.0 - pow(2.0 - 2.0 * p, 3.0) * 0.5;
+    if (uEasing == 2) return p * p * p * (p * (p * 6.0 - 15.0) + 10.0);
+    if (uEasing == 3) return p >= 1.0 ? 1.0 : 1.0 - pow(2.0, -10.0 * p);
+    if (uEasing == 4) { float q = p - 1.0; return 1.0 + 2.70158 * q * q * q + 1.70158 * q * q; } // Overshoots, then settles
+    return p;
+  }
+
+  // 0..1: when this needle's turn comes in the wave
+  float waveOrder() {
+    float height = clamp(position.y / uExtent.x + 0.5, 0.0, 1.0);
+    float order = uWave == 1 ? 1.0 - height : uWave == 2 ? clamp(length(position.xz) / uExtent.y, 0.0, 1.0) : height;
+    // A little jitter so the front isn't a hard line
+    return order * 0.85 + aSpeed * 0.15;
+  }
   
   void main() {
-    // Cubic easing for the progress
-    float t = uProgress;
+    // Each needle runs its own eased trip, starting when the wave reaches it
+    float delay = uStagger * waveOrder();
+    float t = ease(clamp((uProgress - delay) / (1.0 - uStagger), 0.0, 1.0));
     
     // Add some noise based on time and index to make the "explosion" feel alive
     vec3 noise = vec3(
@@ -25,155 +76,261 @@ const foliageVertexShader = `
       sin(uTime * aSpeed + position.z)
     ) * 0.2 * t;
 
-    vec3 finalPos = mix(position, aChaosPos + noise, t);
+    vec3 destination = mix(aMorphFromPos, aChaosPos, uMorphBlend);
+    // Wind sway on the formed tree: outer, higher needles move the most
+    float reach = length(position.xz) * (position.y + uExtent.x * 0.5) * 0.05;
+    vec3 sway = vec3(uWind.x, 0.0, uWind.y) * reach * (0.6 + 0.4 * sin(uTime * (1.0 + aSpeed) + position.y * 0.8));
+    // And a light breeze even when the air is still
+    sway += vec3(sin(uTime * 0.7 + position.y * 0.5 + aSpeed), 0.0, cos(uTime * 0.6 + position.y * 0.4 + aSpeed)) * uSway * reach;
+    // Hands on the formed tree push the nearby needles aside
+    vec3 finalPos = mix(position + sway + forceOffset(position), destination + noise, t);
     
     vec4 mvPosition = modelViewMatrix * vec4(finalPos, 1.0);
     gl_Position = projectionMatrix * mvPosition;
-    gl_PointSize = (40.0 * (1.0 - t * 0.5)) / -mvPosition.z;
+
+    // Tip needles flash briefly, each on its own beat
+    vTwinkle = uTwinkle * aTip * pow(max(sin(uTime * (1.0 + aSpeed * 2.0) + aSpeed * 60.0), 0.0), 12.0) * (1.0 - t * 0.5);
+
+    // Needle size in world units, projected: the same on every screen and resolution
+    float pixels = uNeedleSize * projectionMatrix[1][1] * 0.5 * uViewportHeight;
+    gl_PointSize = pixels * (1.0 - t * 0.5) * (1.0 + vTwinkle * 0.8) / -mvPosition.z;
     
     // Darken color slightly in chaos mode
     vColor = color * (1.0 - t * 0.3); 
+
+    // Audio shimmer: each needle flickers at its own rate
+    vShimmer = uShimmer * (0.5 + 0.5 * sin(uTime * 8.0 * aSpeed + position.y * 3.0));
   }
 `;
 
 const foliageFragmentShader = `
   varying vec3 vColor;
+  varying float vShimmer;
+  varying float vTwinkle;
+  uniform vec3 uSheen;
   void main() {
     float r = distance(gl_PointCoord, vec2(0.5));
     if (r > 0.5) discard;
-    // Add a golden sheen to the center of needles
-    vec3 sheen = vec3(1.0, 0.8, 0.2) * (1.0 - smoothstep(0.0, 0.4, r));
-    gl_FragColor = vec4(vColor + sheen * 0.2, 1.0);
+    // Add a sheen in the theme's metal to the center of needles
+    vec3 sheen = uSheen * (1.0 - smoothstep(0.0, 0.4, r));
+    // Twinkling tips burn bright enough to bloom
+    gl_FragColor = vec4(vColor * (1.0 + vTwinkle * 3.0) + sheen * (0.2 + vShimmer), 1.0);
   }
 `;
 
+const NO_WIND: [number, number] = [0, 0];
+
 interface LuxuryTreeProps {
   isUnleashed: boolean;
+  config?: TreeConfig;
+  seed?: number;
+  morphTarget?: MorphTargetName;
+  morphText?: string;
+  rotationY?: number;    // Target spin of the whole tree (swipe gestures)
+  topperLaunches?: number; // Increment to send the topper up on a launch arc
+  detail?: number;         // 0..1 share of needles and ornaments drawn (quality tiers)
+  customOrnaments?: CustomOrnament[];
+  placingOrnament?: boolean;            // Clicking the tree reports a hanging spot
+  pendingOrnament?: Vector3Array | null;
+  onPlaceOrnament?: (point: Vector3Array) => void;
+  audio?: React.MutableRefObject<AudioReaction>; // Written each frame by the audio driver
+  lightProgram?: LightProgram;
+  wind?: [number, number]; // Sways the formed foliage (x, z)
+  progressOverride?: React.MutableRefObject<number | null>; // Set by a timeline; replaces the unleash easing
+  progressSync?: React.MutableRefObject<SyncedProgress | null>; // Shared session: ease on the relay's clock
+  reducedMotion?: boolean; // Loosen instead of exploding, and ease slower
+  getTouches?: () => TouchPoint[]; // Points pressing on the tree, scattering it locally
+  physics?: boolean; // Ornaments fall and bounce instead of gliding to the morph target
+  ornamentShare?: number; // 0..1 share of the ornaments hung (advent calendar)
+  showLights?: boolean;
+  showTopper?: boolean;
+  handPos?: { x: number, y: number }; // The guardians look at a moving hand
+  damping?: SceneTuning['damping'];  // Ease rates (the tuning panel's)
+  foliageStyle?: SceneTuning['foliage'];
 }
 
-export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ isUnleashed }) => {
+export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ isUnleashed, config = DEFAULT_TREE_CONFIG, seed = 0, morphTarget = 'chaos', morphText, rotationY = 0, topperLaunches = 0, detail = 1,
+  customOrnaments = [], placingOrnament = false, pendingOrnament = null, onPlaceOrnament = () => {}, audio, lightProgram = 'steady', wind = NO_WIND, progressOverride, progressSync,
+  reducedMotion = false, getTouches, physics = false, ornamentShare = 1, showLights = true, showTopper = true, handPos, damping = DEFAULT_SCENE_TUNING.damping, foliageStyle = DEFAULT_SCENE_TUNING.foliage,
+}) => {
+  const rootRef = useRef<THREE.Group>(null);
   const foliageRef = useRef<THREE.Points>(null);
-  const ornamentGroupRef = useRef<THREE.Group>(null);
   
   // Progress state for smooth animation (0 = Formed, 1 = Chaos)
   const progress = useRef(0);
+  // Where unleash/reform has settled, before beat pulses are added on top
+  const settled = useRef(0);
+
+  // Local scatter: touches are raycast onto an invisible cone around the foliage
+  const forceField = useMemo(createForceField, []);
+  const forceData = useMemo(() => new Float32Array(MAX_FORCE_POINTS * 4), []);
+  const touchConeRef = useRef<THREE.Mesh>(null);
+  const [raycaster] = useState(() => new THREE.Raycaster());
+  const [pointer] = useState(() => new THREE.Vector2());
 
   // --- 1. GENERATE FOLIAGE DATA ---
-  const foliageData = useMemo(() => {
-    const count = 12000;
-    const positions = new Float32Array(count * 3);
-    const chaosPositions = new Float32Array(count * 3);
-    const colors = new Float32Array(count * 3);
-    const speeds = new Float32Array(count);
-    
-    const emerald = new Color("#003318");
-    const darkGreen = new Color("#001a0c");
-    const gold = new Color("#FFD700");
-
-    for (let i = 0; i < count; i++) {
-      // TARGET: CONE SHAPE
-      const h = Math.random() * 9; // Height 0 to 9
-      const rBase = 3.5 * (1 - h / 9.5);
-      const theta = Math.random() * Math.PI * 2;
-      // Add volume to the branches
-      const r = rBase * Math.sqrt(Math.random()); 
-      
-      const x = r * Math.cos(theta);
-      const y = h - 4.5; // Center vertically
-      const z = r * Math.sin(theta);
-
-      positions[i * 3] = x;
-      positions[i * 3 + 1] = y;
-      positions[i * 3 + 2] = z;
-
-      // CHAOS: SPHERICAL EXPLOSION
-      // Explode outwards, but bias towards the top
-      const cx = (Math.random() - 0.5) * 25;
-      const cy = (Math.random() - 0.5) * 25 + 5;
-      const cz = (Math.random() - 0.5) * 25;
-      
-      chaosPositions[i * 3] = cx;
-      chaosPositions[i * 3 + 1] = cy;
-      chaosPositions[i * 3 + 2] = cz;
-
-      // COLOR
-      const isGoldTip = Math.random() > 0.9;
-      const c = isGoldTip ? gold : (Math.random() > 0.5 ? emerald : darkGreen);
-      colors[i * 3] = c.r;
-      colors[i * 3 + 1] = c.g;
-      colors[i * 3 + 2] = c.b;
-      
-      speeds[i] = Math.random();
-    }
-    
-    return { positions, chaosPositions, colors, speeds };
-  }, []);
+  const foliageData = useMemo(() => toFoliageBuffers(generateFoliage(config, deriveRng(seed, 'foliage'))), [config, seed]);
+  // New buffers need a fresh geometry; resizing attributes in place is not supported
+  const foliageKey = useMemo(() => JSON.stringify([seed, config.shape, config.foliage]), [config, seed]);
 
   // --- 2. GENERATE ORNAMENT DATA ---
-  // We use InstancedMesh for performance, but calculate positions in JS useFrame for control
-  const ornamentData = useMemo(() => {
-    const count = 300;
-    const items = [];
-    for(let i=0; i<count; i++) {
-        // Target
-        const h = Math.random() * 8.5;
-        const r = (3.5 * (1 - h / 9.5)) + 0.2; // Slightly outside foliage
-        const theta = Math.random() * Math.PI * 2 * 10; // Spiral
-        
-        const tx = r * Math.cos(theta);
-        const ty = h - 4.5;
-        const tz = r * Math.sin(theta);
-
-        // Chaos
-        const cx = (Math.random() - 0.5) * 30;
-        const cy = (Math.random() - 0.5) * 30;
-        const cz = (Math.random() - 0.5) * 30;
-
-        items.push({
-            target: new THREE.Vector3(tx, ty, tz),
-            chaos: new THREE.Vector3(cx, cy, cz),
-            scale: Math.random() * 0.3 + 0.1,
-            speed: Math.random() * 0.5 + 0.5, // Parallax effect
-            rotSpeed: Math.random() * 2,
-            // 90% Cats!
-            type: Math.random() > 0.1 ? 'ball' : 'gift'
-        });
+  // Rendered through instanced meshes; the morph runs in their vertex shader
+  const ornamentData = useMemo(() => generateOrnaments(config, deriveRng(seed, 'ornaments')), [config, seed]);
+
+  // Physics mode: a seeded simulation takes over the ornaments (never with reduced motion)
+  const guardians = useMemo(() => generateGuardians(config), [config]);
+  const ornamentPhysics = useMemo(
+    () => (physics && !reducedMotion ? createOrnamentPhysics(ornamentData, guardians, deriveRng(seed, 'ornament-physics')) : null),
+    [physics, reducedMotion, ornamentData, guardians, seed],
+  );
+
+  // String lights wound along the same spiral
+  const lightBulbs = useMemo(() => generateLights(config, deriveRng(seed, 'lights')), [config, seed]);
+  const { theme } = useTheme();
+  const sheen = useMemo(() => new THREE.Color(theme.palette.sheen), [theme.palette.sheen]);
+
+  // --- 3. MORPH TARGETS ---
+  // Where "unleashed" flies to. Switching targets crossfades the destinations,
+  // so both paths (shader and ornaments) glide into the new formation.
+  const foliageMorph = useMemo(() => createMorphState(foliageData.chaosPositions), [foliageData]);
+  const ornamentMorph = useMemo<MorphState>(() => {
+    const chaos = new Float32Array(ornamentData.length * 3);
+    ornamentData.forEach((item, i) => chaos.set(item.position.chaos, i * 3));
+    return createMorphState(chaos);
+  }, [ornamentData]);
+
+  // Thinning just draws a prefix of the needles: generation order is random anyway
+  useEffect(() => {
+    foliageRef.current?.geometry.setDrawRange(0, Math.ceil(foliageData.speeds.length * detail));
+  }, [foliageData, foliageKey, detail]);
+
+  useEffect(() => {
+    const options = treeMorphOptions(config, morphText);
+    const foliageDest = morphTarget === 'chaos'
+      ? foliageData.chaosPositions
+      : generateMorphTarget(morphTarget, foliageData.speeds.length, deriveRng(seed, `morph-${morphTarget}`), options);
+    const ornamentDest = new Float32Array(ornamentData.length * 3);
+    if (morphTarget === 'chaos') {
+      ornamentData.forEach((item, i) => ornamentDest.set(item.position.chaos, i * 3));
+    } else {
+      ornamentDest.set(generateMorphTarget(morphTarget, ornamentData.length, deriveRng(seed, `ornament-morph-${morphTarget}`), options));
     }
-    return items;
-  }, []);
+
+    retargetMorph(foliageMorph, foliageDest);
+    retargetMorph(ornamentMorph, ornamentDest);
+
+    const geometry = foliageRef.current?.geometry;
+    if (geometry) {
+        geometry.getAttribute('aMorphFromPos').needsUpdate = true;
+        geometry.getAttribute('aChaosPos').needsUpdate = true;
+    }
+  }, [morphTarget, morphText, foliageData, ornamentData, foliageMorph, ornamentMorph, seed, config]);
 
   // --- ANIMATION LOOP ---
   useFrame((state, delta) => {
+    // 0. Ease towards the requested spin
+    if (rootRef.current) {
+        rootRef.current.rotation.y = MathUtils.damp(rootRef.current.rotation.y, rotationY, damping.rotation, delta);
+    }
+
     // 1. Interpolate global progress
     const target = isUnleashed ? 1 : 0;
     // Lerp smoothly: Chaos is fast (0.5), Reform is slower (2.0) to look elegant
-    const speed = isUnleashed ? 2.0 : 1.0; 
-    progress.current = MathUtils.damp(progress.current, target, speed, delta);
+    const speed = (isUnleashed ? damping.unleash : damping.reform) * (reducedMotion ? REDUCED_MOTION.rateScale : 1);
+    // A timeline is followed closely, but still eased so taking over never jumps
+    const scripted = progressOverride?.current ?? null;
+    // In a shared session the same curve is computed from the relay's timestamp on every screen
+    const synced = progressSync?.current ?? null;
+    if (scripted !== null) {
+        settled.current = MathUtils.damp(settled.current, scripted, damping.scripted, delta);
+    } else if (synced !== null) {
+        settled.current = progressAfter(synced.from, synced.unleashed, (performance.now() - synced.startedAt) / 1000);
+    } else {
+        settled.current = MathUtils.damp(settled.current, target, speed, delta);
+    }
+    progress.current = Math.min(1, settled.current + (audio?.current.pulse ?? 0)) * (reducedMotion ? REDUCED_MOTION.maxProgress : 1);
+
+    // Physics follows where the tree is headed, not the eased progress
+    if (ornamentPhysics) {
+        const goal = scripted ?? (synced !== null ? (synced.unleashed ? 1 : 0) : target);
+        ornamentPhysics.setUnleashed(goal > 0.5);
+        ornamentPhysics.advance(delta);
+    }
+
+    // Touches press into the tree where their ray meets it (not while hanging ornaments)
+    const cone = touchConeRef.current;
+    if (cone && rootRef.current && !placingOrnament) {
+        getTouches?.().forEach(touch => {
+            pointer.set(touch.cx, -touch.cy);
+            raycaster.setFromCamera(pointer, state.camera);
+            const hit = raycaster.intersectObject(cone, false)[0];
+            if (!hit) return;
+            const local = rootRef.current!.worldToLocal(hit.point);
+            forceField.press(touch.id, [local.x, local.y, local.z]);
+        });
+    }
+    forceField.push = FORCE_PUSH * (reducedMotion ? REDUCED_MOTION.forceScale : 1);
+    forceField.step(delta);
+    forceField.write(forceData);
+
+    // Crossfade between morph destinations
+    foliageMorph.blend = MathUtils.damp(foliageMorph.blend, 1, damping.morph, delta);
+    ornamentMorph.blend = foliageMorph.blend;
 
     // 2. Update Foliage Shader
     if (foliageRef.current) {
         const mat = foliageRef.current.material as THREE.ShaderMaterial;
         mat.uniforms.uProgress.value = progress.current;
         mat.uniforms.uTime.value = state.clock.elapsedTime;
+        mat.uniforms.uMorphBlend.value = foliageMorph.blend;
+        mat.uniforms.uShimmer.value = audio?.current.shimmer ?? 0;
+        mat.uniforms.uWind.value.set(wind[0], wind[1]);
+        mat.uniforms.uSheen.value.copy(sheen);
+        mat.uniforms.uForcePush.value = forceField.push;
+        // Reduced motion keeps the plain, lockstep loosening and a still tree
+        mat.uniforms.uEasing.value = reducedMotion ? 0 : FOLIAGE_EASINGS.indexOf(foliageStyle.easing);
+        mat.uniforms.uWave.value = FOLIAGE_WAVES.indexOf(foliageStyle.wave);
+        mat.uniforms.uStagger.value = reducedMotion ? 0 : MathUtils.clamp(foliageStyle.stagger, 0, 0.9);
+        mat.uniforms.uExtent.value.set(config.shape.height, config.shape.baseRadius);
+        mat.uniforms.uTwinkle.value = reducedMotion ? 0 : foliageStyle.twinkle;
+        mat.uniforms.uSway.value = reducedMotion ? 0 : foliageStyle.sway;
+        mat.uniforms.uNeedleSize.value = foliageStyle.needleSize;
+        mat.uniforms.uViewportHeight.value = state.size.height * state.viewport.dpr;
     }
   });
 
   return (
-    <group>
+    <group ref={rootRef}>
       {/* --- FOLIAGE SYSTEM (GPU) --- */}
       <points ref={foliageRef}>
-        <bufferGeometry>
+        <bufferGeometry key={foliageKey}>
           <bufferAttribute attach="attributes-position" count={foliageData.positions.length / 3} array={foliageData.positions} itemSize={3} />
-          <bufferAttribute attach="attributes-aChaosPos" count={foliageData.chaosPositions.length / 3} array={foliageData.chaosPositions} itemSize={3} />
+          <bufferAttribute attach="attributes-aChaosPos" count={foliageMorph.to.length / 3} array={foliageMorph.to} itemSize={3} />
+          <bufferAttribute attach="attributes-aMorphFromPos" count={foliageMorph.from.length / 3} array={foliageMorph.from} itemSize={3} />
           <bufferAttribute attach="attributes-color" count={foliageData.colors.length / 3} array={foliageData.colors} itemSize={3} />
           <bufferAttribute attach="attributes-aSpeed" count={foliageData.speeds.length} array={foliageData.speeds} itemSize={1} />
+          <bufferAttribute attach="attributes-aTip" count={foliageData.tips.length} array={foliageData.tips} itemSize={1} />
         </bufferGeometry>
         <shaderMaterial 
           vertexShader={foliageVertexShader}
           fragmentShader={foliageFragmentShader}
           uniforms={{
             uProgress: { value: 0 },
-            uTime: { value: 0 }
+            uTime: { value: 0 },
+            uMorphBlend: { value: 1 },
+            uShimmer: { value: 0 },
+            uWind: { value: new THREE.Vector2() },
+            uSheen: { value: new THREE.Color() },
+            uForce: { value: forceData },
+            uForcePush: { value: FORCE_PUSH },
+            uEasing: { value: 1 },
+            uWave: { value: 0 },
+            uStagger: { value: 0 },
+            uExtent: { value: new THREE.Vector2(1, 1) },
+            uTwinkle: { value: 0 },
+            uSway: { value: 0 },
+            uNeedleSize: { value: DEFAULT_SCENE_TUNING.foliage.needleSize },
+            uViewportHeight: { value: 1000 }
           }}
           vertexColors
           transparent
@@ -182,94 +339,92 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ isUnleashed }) => {
         />
       </points>
 
-      {/* --- ORNAMENT SYSTEM (CPU Interpolated) --- */}
-      <group ref={ornamentGroupRef}>
-         {ornamentData.map((data, i) => (
-             <OrnamentItem key={i} data={data} progress={progress} />
-         ))}
+      {/* Touch target for the local force field (never drawn) */}
+      <mesh ref={touchConeRef} visible={false} position={[0, -config.shape.height / 2 + config.shape.apexHeight / 2, 0]}>
+        <coneGeometry args={[config.shape.baseRadius, config.shape.apexHeight, 32, 1, true]} />
+      </mesh>
+
+      {/* --- ORNAMENT SYSTEM (GPU Instanced) --- */}
+      <OrnamentSystem ornaments={ornamentData} morph={ornamentMorph} earColor={config.ornaments.earColor} progress={progress} detail={detail * ornamentShare} forceField={forceField} physics={ornamentPhysics} />
+
+      {/* --- STRING LIGHTS --- */}
+      <group visible={showLights}>
+        <StringLights bulbs={lightBulbs} program={lightProgram} palette={config.lights.colors} size={config.lights.bulbSize} progress={progress} forceField={forceField} />
       </group>
 
+      {/* --- PERSONAL ORNAMENTS --- */}
+      <CustomOrnaments
+        ornaments={customOrnaments}
+        progress={progress}
+        forceField={forceField}
+        config={config}
+        placing={placingOrnament}
+        pending={pendingOrnament}
+        onPlace={onPlaceOrnament}
+      />
+
       {/* --- THE GUARDIANS --- */}
-      <GuardianCats progress={progress} />
+      <GuardianCats config={config} seed={seed} progress={progress} handPos={handPos} reducedMotion={reducedMotion} />
 
       {/* --- THE TOPPER (Special) --- */}
-      <Topper progress={progress} />
+      <group visible={showTopper}>
+        <Topper config={config} progress={progress} launches={topperLaunches} audio={audio} />
+      </group>
       
     </group>
   );
 };
 
-// Helper for individual ornaments to handle their own lerp/physics
-const OrnamentItem: React.FC<{ data: any, progress: React.MutableRefObject<number> }> = ({ data, progress }) => {
-    const meshRef = useRef<THREE.Group>(null);
-    const vec = new THREE.Vector3();
+const LAUNCH_DURATION = 2.5;
+const LAUNCH_HEIGHT = 10;
 
-    useFrame((state) => {
-        if (!meshRef.current) return;
-        
-        // Calculate current position based on global progress, but modified by item weight/speed
-        // This makes the explosion feel "layered" rather than linear
-        const p = progress.current;
-        // Ease the progress per item
-        const localP = MathUtils.smootherstep(p, 0, 1);
-        
-        vec.lerpVectors(data.target, data.chaos, localP);
-        
-        // Add some float
-        vec.y += Math.sin(state.clock.elapsedTime * data.speed + data.target.x) * 0.05;
-
-        meshRef.current.position.copy(vec);
-        meshRef.current.rotation.x += 0.01 * data.rotSpeed;
-        meshRef.current.rotation.y += 0.01 * data.rotSpeed;
-    });
+const TOPPER_LIGHT = 5;
 
-    return (
-        <group ref={meshRef} scale={data.scale}>
-            {data.type === 'gift' ? (
-                <mesh castShadow receiveShadow>
-                    <boxGeometry />
-                    <meshStandardMaterial color={Math.random() > 0.5 ? "#FFD700" : "#d40000"} metalness={0.8} roughness={0.2} />
-                </mesh>
-            ) : (
-                <mesh castShadow receiveShadow>
-                    {/* Cat Head Bauble */}
-                    <sphereGeometry args={[1, 16, 16]} />
-                    <meshStandardMaterial color={Math.random() > 0.3 ? "#FFD700" : (Math.random() > 0.5 ? "#b8860b" : "#e6e6e6")} metalness={1} roughness={0.1} envMapIntensity={2} />
-                    {/* Cat Ears */}
-                    <mesh position={[-0.4, 0.6, 0]} rotation={[0,0,0.4]}>
-                        <coneGeometry args={[0.3, 0.6, 16]} />
-                        <meshStandardMaterial color="#FFD700" metalness={1} />
-                    </mesh>
-                    <mesh position={[0.4, 0.6, 0]} rotation={[0,0,-0.4]}>
-                        <coneGeometry args={[0.3, 0.6, 16]} />
-                        <meshStandardMaterial color="#FFD700" metalness={1} />
-                    </mesh>
-                </mesh>
-            )}
-        </group>
-    );
-}
-
-const Topper = ({ progress }: { progress: React.MutableRefObject<number> }) => {
+const Topper = ({ config, progress, launches, audio }: { config: TreeConfig, progress: React.MutableRefObject<number>, launches: number, audio?: React.MutableRefObject<AudioReaction> }) => {
     const ref = useRef<THREE.Group>(null);
-    useFrame(() => {
+    const lightRef = useRef<THREE.PointLight>(null);
+    const { theme } = useTheme();
+    const launchStart = useRef<number | null>(null);
+    const pendingLaunch = useRef(false);
+    const heights = useMemo(() => topperHeights(config), [config]);
+
+    useEffect(() => {
+        if (launches > 0) pendingLaunch.current = true;
+    }, [launches]);
+
+    useFrame((state) => {
         if(ref.current) {
             const t = progress.current;
+            const now = state.clock.elapsedTime;
+            if (pendingLaunch.current) {
+                launchStart.current = now;
+                pendingLaunch.current = false;
+            }
+
+            // Launch arc: up and back down again, spinning hard on the way
+            let launch = 0;
+            if (launchStart.current !== null) {
+                const u = (now - launchStart.current) / LAUNCH_DURATION;
+                if (u >= 1) launchStart.current = null;
+                else launch = Math.sin(Math.PI * u);
+            }
+
             // The topper flies UP into the sky when unleashed
-            const targetY = 5.5;
-            const chaosY = 15.0; 
-            ref.current.position.y = MathUtils.lerp(targetY, chaosY, t);
+            ref.current.position.y = MathUtils.lerp(heights.rest, heights.chaos, t) + launch * LAUNCH_HEIGHT;
             ref.current.scale.setScalar(MathUtils.lerp(1, 2, t)); // Grows when chaotic
-            ref.current.rotation.y += 0.05 + (t * 0.2); // Spins faster in chaos
+            ref.current.rotation.y += 0.05 + (t * 0.2) + launch * 0.3; // Spins faster in chaos
+        }
+        if (lightRef.current) {
+            lightRef.current.intensity = TOPPER_LIGHT * (1 + (audio?.current.topperLight ?? 0));
         }
     })
 
     return (
-        <group ref={ref} position={[0, 5.5, 0]}>
-             <pointLight intensity={5} color="#FFD700" distance={10} />
+        <group ref={ref} position={[0, heights.rest, 0]}>
+             <pointLight ref={lightRef} intensity={TOPPER_LIGHT} color={theme.lights.topper} distance={10} />
              <mesh>
                  <sphereGeometry args={[0.6, 32, 32]} />
-                 <meshStandardMaterial color="#FFD700" emissive="#FFD700" emissiveIntensity={2} toneMapped={false} />
+                 <meshStandardMaterial color={theme.lights.topper} emissive={theme.lights.topper} emissiveIntensity={2} toneMapped={false} />
              </mesh>
              {/* Cat Halo */}
              <mesh rotation={[Math.PI/2, 0, 0]}>
@@ -279,84 +434,12 @@ const Topper = ({ progress }: { progress: React.MutableRefObject<number> }) => {
              {/* Giant Cat Ears for Topper */}
              <mesh position={[-0.3, 0.5, 0]} rotation={[0, 0, 0.3]}>
                 <coneGeometry args={[0.25, 0.6, 32]} />
-                <meshStandardMaterial color="#FFD700" emissive="#FFD700" emissiveIntensity={1} />
+                <meshStandardMaterial color={theme.lights.topper} emissive={theme.lights.topper} emissiveIntensity={1} />
              </mesh>
              <mesh position={[0.3, 0.5, 0]} rotation={[0, 0, -0.3]}>
                 <coneGeometry args={[0.25, 0.6, 32]} />
-                <meshStandardMaterial color="#FFD700" emissive="#FFD700" emissiveIntensity={1} />
+                <meshStandardMaterial color={theme.lights.topper} emissive={theme.lights.topper} emissiveIntensity={1} />
              </mesh>
         </group>
     )
 }
-
-const GuardianCats = ({ progress }: { progress: React.MutableRefObject<number> }) => {
-    const groupRef = useRef<THREE.Group>(null);
-    
-    // 3 Large cats sitting at the base in a triangle
-    const cats = useMemo(() => [0, 1, 2].map(i => {
-        const angle = (i / 3) * Math.PI * 2;
-        return {
-            x: Math.cos(angle) * 4.5,
-            z: Math.sin(angle) * 4.5,
-            rot: -angle + Math.PI/2 // Face outward
-        }
-    }), []);
-  
-    useFrame(() => {
-        if (groupRef.current) {
-             const t = progress.current;
-             // Guardians slide outwards when unleashed to make room for chaos
-             const scale = 1 + t * 0.2;
-             const spread = 1 + t * 0.5;
-             
-             groupRef.current.scale.setScalar(scale);
-             groupRef.current.children.forEach((child, i) => {
-                 const catDef = cats[i];
-                 child.position.x = MathUtils.lerp(catDef.x, catDef.x * spread, t);
-                 child.position.z = MathUtils.lerp(catDef.z, catDef.z * spread, t);
-             });
-        }
-    });
-  
-    return (
-        <group ref={groupRef}>
-            {cats.map((cat, i) => (
-                <group key={i} position={[cat.x, -4.5, cat.z]} rotation={[0, cat.rot, 0]}>
-                    <mesh castShadow receiveShadow position={[0, 1.5, 0]}>
-                        {/* Body - Sleek Egyptian Style */}
-                        <cylinderGeometry args={[0.6, 1.0, 3, 32]} />
-                        <meshStandardMaterial color="#FFD700" metalness={0.95} roughness={0.05} envMapIntensity={3} />
-                    </mesh>
-                    <mesh position={[0, 3.2, 0.4]}>
-                        {/* Head */}
-                        <sphereGeometry args={[0.7, 32, 32]} />
-                        <meshStandardMaterial color="#FFD700" metalness={0.95} roughness={0.05} envMapIntensity={3} />
-                        {/* Ears */}
-                        <mesh position={[-0.3, 0.6, 0]} rotation={[0,0,0.5]}>
-                            <coneGeometry args={[0.2, 0.7, 32]} />
-                            <meshStandardMaterial color="#FFD700" metalness={0.95} roughness={0.05} />
-                        </mesh>
-                        <mesh position={[0.3, 0.6, 0]} rotation={[0,0,-0.5]}>
-                            <coneGeometry args={[0.2, 0.7, 32]} />
-                            <meshStandardMaterial color="#FFD700" metalness={0.95} roughness={0.05} />
-                        </mesh>
-                        {/* Eyes */}
-                        <mesh position={[-0.2, 0.1, 0.6]}>
-                             <sphereGeometry args={[0.1, 16, 16]} />
-                             <meshStandardMaterial color="#00ff00" emissive="#00ff00" emissiveIntensity={2} />
-                        </mesh>
-                        <mesh position={[0.2, 0.1, 0.6]}>
-                             <sphereGeometry args={[0.1, 16, 16]} />
-                             <meshStandardMaterial color="#00ff00" emissive="#00ff00" emissiveIntensity={2} />
-                        </mesh>
-                    </mesh>
-                    {/* Base Plinth */}
-                    <mesh position={[0, -0.2, 0]}>
-                        <boxGeometry args={[2.5, 0.4, 2.5]} />
-                        <meshStandardMaterial color="#001a0c" metalness={0.5} roughness={0.5} />
-                    </mesh>
-                </group>
-            ))}
-        </group>
-    )
-  }
\ No newline at end of file
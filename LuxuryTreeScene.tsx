@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { Environment } from '@react-three/drei';
+import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
+import { LuxuryTree } from './LuxuryTree';
+import { GestureEvent, InputEvent, MorphTargetName, PartialTreeConfig } from './types';
+import { THEMES, ThemeName } from './theme';
+import { ThemeScope } from './ThemeContext';
+import { mergeTreeConfig, resolveTreeConfig } from './treeConfig';
+import { MORPH_TARGETS } from './morphTargets';
+import { createCamera } from './camera';
+import { InputHub, createGamepadSource, createInputActionMapper, createInputHub, createKeyboardSource, createPointerSource, createWebcamSource } from './inputSources';
+
+// --- EMBEDDABLE SCENE ---
+// The tree with its own Canvas, lights and input, filling whatever box the host
+// gives it. Unlike Experience it has no overlay and leaves the page's URL,
+// storage and styles alone. Exported by lib.ts; embed.tsx wraps it for iframes.
+
+export type SceneInputKind = 'pointer' | 'keyboard' | 'gamepad' | 'webcam';
+export type SceneInputs = Partial<Record<SceneInputKind, boolean>>;
+
+// Keys and the camera are page-wide, so the host opts into them
+export const DEFAULT_SCENE_INPUTS: Record<SceneInputKind, boolean> = {
+  pointer: true,
+  keyboard: false,
+  gamepad: false,
+  webcam: false,
+};
+
+export interface LuxuryTreeSceneProps {
+  config?: PartialTreeConfig; // Applied over the theme's tree
+  theme?: ThemeName;
+  seed?: number;
+  unleashed?: boolean;        // Controlled when set; otherwise input unleashes and reforms the tree
+  inputs?: SceneInputs;       // Merged over DEFAULT_SCENE_INPUTS
+  className?: string;
+  style?: React.CSSProperties;
+  onUnleash?: () => void;     // Input asked to unleash (a controlled tree only follows the prop)
+  onReform?: () => void;
+  onGesture?: (gesture: GestureEvent) => void; // Every recognized gesture, including state changes
+}
+
+const InputTicker = ({ hub }: { hub: InputHub }) => {
+  useFrame(() => hub.tick(performance.now()));
+  return null;
+};
+
+export const LuxuryTreeScene: React.FC<LuxuryTreeSceneProps> = ({
+  config, theme: themeName = 'gold', seed = 0, unleashed, inputs, className, style, onUnleash, onReform, onGesture,
+}) => {
+  const theme = THEMES[themeName] ?? THEMES.gold;
+  // Keyed on the contents, so an inline config object doesn't regenerate the tree every render
+  const configKey = JSON.stringify(config ?? {});
+  const treeConfig = useMemo(() => mergeTreeConfig(resolveTreeConfig(theme.tree), JSON.parse(configKey)), [theme, configKey]);
+  const [ownUnleashed, setOwnUnleashed] = useState(false);
+  const shownUnleashed = unleashed ?? ownUnleashed;
+  const [rotation, setRotation] = useState(0);
+  const [topperLaunches, setTopperLaunches] = useState(0);
+  const [morphTarget, setMorphTarget] = useState<MorphTargetName>('chaos');
+  const [handPos, setHandPos] = useState({ x: 0, y: 0 });
+  const enabled = { ...DEFAULT_SCENE_INPUTS, ...inputs };
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [hub] = useState(createInputHub);
+  const [camera] = useState(createCamera);
+
+  const request = (next: boolean) => {
+    if (next === shownUnleashed) return;
+    if (unleashed === undefined) setOwnUnleashed(next);
+    if (next) onUnleash?.();
+    else onReform?.();
+  };
+
+  const [mapInputEvent] = useState(createInputActionMapper);
+
+  const handleEvent = (event: InputEvent) => {
+    if (event.type !== 'command') onGesture?.(event);
+    mapInputEvent(event, {
+      setUnleashed: request,
+      toggleUnleashed: () => request(!shownUnleashed),
+      rotate: by => setRotation(r => r + by),
+      resetRotation: () => setRotation(0),
+      resetView: () => setRotation(0),
+      launchTopper: () => setTopperLaunches(n => n + 1),
+      nextMorph: () => setMorphTarget(t => MORPH_TARGETS[(MORPH_TARGETS.indexOf(t) + 1) % MORPH_TARGETS.length]),
+    });
+  };
+
+  // Subscribed once per hub; the ref hands each frame to this render's handleEvent
+  const handleEventRef = useRef(handleEvent);
+  handleEventRef.current = handleEvent;
+
+  useEffect(() => hub.subscribe(frame => {
+    if (frame.active) setHandPos({ x: frame.cx, y: frame.cy });
+    frame.events.forEach(e => handleEventRef.current(e));
+  }), [hub]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled.pointer || !container) return;
+    return hub.add(createPointerSource(container));
+  }, [hub, enabled.pointer]);
+
+  useEffect(() => (enabled.keyboard ? hub.add(createKeyboardSource()) : undefined), [hub, enabled.keyboard]);
+  useEffect(() => (enabled.gamepad ? hub.add(createGamepadSource()) : undefined), [hub, enabled.gamepad]);
+
+  useEffect(() => {
+    if (!enabled.webcam) return;
+    camera.start();
+    const remove = hub.add(createWebcamSource(camera));
+    return () => {
+      remove();
+      camera.stop();
+    };
+  }, [hub, camera, enabled.webcam]);
+
+  return (
+    <div ref={containerRef} className={className} style={{ position: 'relative', width: '100%', height: '100%', touchAction: 'none', ...style }}>
+      <ThemeScope theme={theme}>
+        <Canvas shadows dpr={[1, 2]} gl={{ antialias: false }} camera={{ position: [0, 4, 18], fov: 35 }}>
+          <color attach="background" args={[theme.palette.background]} />
+          <fog attach="fog" args={[theme.palette.background, 10, 40]} />
+          <InputTicker hub={hub} />
+
+          <ambientLight intensity={0.2} />
+          <spotLight position={[10, 15, 10]} angle={0.2} penumbra={1} intensity={20} castShadow shadow-bias={-0.0001} color={theme.lights.key} />
+          <pointLight position={[-10, 5, -5]} intensity={5} color={theme.lights.fill} distance={20} />
+          <pointLight position={[5, -2, 5]} intensity={5} color={theme.lights.accent} distance={15} />
+
+          <group position={[0, -2, 0]}>
+            <LuxuryTree
+              isUnleashed={shownUnleashed}
+              config={treeConfig}
+              seed={seed}
+              morphTarget={morphTarget}
+              rotationY={rotation}
+              topperLaunches={topperLaunches}
+              getTouches={() => hub.touches(performance.now())}
+              handPos={handPos}
+            />
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -2.5, 0]} receiveShadow>
+              <planeGeometry args={[100, 100]} />
+              <meshStandardMaterial color={theme.palette.floor} metalness={0.8} roughness={0.5} />
+            </mesh>
+          </group>
+
+          <Environment preset="lobby" />
+          <EffectComposer enableNormalPass={false}>
+            <Bloom luminanceThreshold={0.6} mipmapBlur intensity={theme.bloom} radius={0.4} />
+            <Vignette eskil={false} offset={0.1} darkness={1.1} />
+          </EffectComposer>
+        </Canvas>
+      </ThemeScope>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { CustomOrnamentShape } from './types';
+import { CUSTOM_ORNAMENT_SHAPES, MAX_MESSAGE_LENGTH } from './customOrnaments';
+import { useTheme } from './ThemeContext';
+
+const SHAPE_LABELS: Record<CustomOrnamentShape, string> = {
+  cat: 'Cat Bauble',
+  gift: 'Gift',
+  star: 'Star',
+};
+
+interface OrnamentPanelProps {
+  placing: boolean;
+  hasPending: boolean;
+  count: number;
+  error: string | null;
+  onStartPlacing: () => void;
+  onCancel: () => void;
+  onConfirm: (details: { shape: CustomOrnamentShape; color: string; message: string }) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClear: () => void;
+}
+
+const buttonClass = "px-2 py-1 rounded border border-accent/30 hover:border-accent transition-colors";
+
+export const OrnamentPanel: React.FC<OrnamentPanelProps> = ({
+  placing, hasPending, count, error, onStartPlacing, onCancel, onConfirm, onExport, onImport, onClear,
+}) => {
+  const [shape, setShape] = useState<CustomOrnamentShape>('cat');
+  const { theme } = useTheme();
+  const [color, setColor] = useState(theme.palette.accent);
+  const [message, setMessage] = useState('');
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm({ shape, color, message: message.trim() });
+    setMessage('');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="absolute left-4 top-1/2 -translate-y-1/2 w-56 flex flex-col gap-2 font-accent text-[9px] tracking-[0.2em] uppercase text-accent">
+      {!placing && (
+        <button onClick={onStartPlacing} className={buttonClass}>
+          Hang an Ornament
+        </button>
+      )}
+
+      {placing && !hasPending && (
+        <div className="p-3 rounded-lg bg-black/70 border border-accent/40 flex flex-col gap-2">
+          <span>Click the tree where it should hang</span>
+          <button onClick={onCancel} className={buttonClass}>Cancel</button>
+        </div>
+      )}
+
+      {placing && hasPending && (
+        <form onSubmit={handleConfirm} className="p-3 rounded-lg bg-black/70 border border-accent/40 flex flex-col gap-2">
+          <div className="flex gap-1">
+            {CUSTOM_ORNAMENT_SHAPES.map(s => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => setShape(s)}
+                className={`flex-1 px-1 py-1 rounded border ${shape === s ? 'border-accent' : 'border-accent/30 opacity-60'}`}
+              >
+                {SHAPE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between">
+            Color
+            <input type="color" value={color} onChange={e => setColor(e.target.value)} className="w-10 h-6 bg-transparent" />
+          </label>
+          <input
+            type="text"
+            value={message}
+            maxLength={MAX_MESSAGE_LENGTH}
+            onChange={e => setMessage(e.target.value)}
+            placeholder="A short message"
+            className="px-2 py-1 rounded bg-black/60 border border-accent/30 normal-case tracking-normal font-display text-xs text-white"
+          />
+          <div className="flex gap-2">
+            <button type="submit" className={`flex-1 ${buttonClass}`}>Hang</button>
+            <button type="button" onClick={onCancel} className={`flex-1 ${buttonClass}`}>Cancel</button>
+          </div>
+        </form>
+      )}
+
+      <div className="flex gap-2 items-center opacity-70">
+        <span>{count} hung</span>
+        <button onClick={onExport} disabled={count === 0} className={buttonClass}>Export</button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Import
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+        {count > 0 && (
+          <button onClick={onClear} className={buttonClass}>Clear</button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-2 rounded bg-black/70 border border-red-500/50 text-red-300 normal-case tracking-normal font-mono">{error}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { OrnamentData, OrnamentType } from './types';
+import { MorphState } from './morphTargets';
+import { FORCE_FIELD_GLSL, FORCE_PUSH, ForceField, MAX_FORCE_POINTS } from './forceField';
+import { OrnamentPhysics } from './ornamentPhysics';
+
+// --- GPU-INSTANCED ORNAMENTS ---
+// One instanced mesh per part (cat bauble, its ears, gift box) instead of a React
+// component per ornament. The target/chaos interpolation, float and spin all run
+// in the vertex shader, like the foliage, so thousands of ornaments cost a few draw calls.
+
+const ornamentShaderHeader = `
+  ${FORCE_FIELD_GLSL}
+  uniform float uProgress;
+  uniform float uTime;
+  uniform float uMorphBlend;
+  uniform float uPhysics;
+  attribute vec3 aTarget;
+  attribute vec3 aPhysics;
+  attribute vec3 aMorphFrom;
+  attribute vec3 aMorphTo;
+  attribute float aScale;
+  attribute float aSpeed;
+  attribute float aRotSpeed;
+
+  // Tumble on x and y (Euler XYZ), matching 0.01 rad per frame at 60fps
+  mat3 ornamentRotation() {
+    float a = uTime * 0.6 * aRotSpeed;
+    float c = cos(a);
+    float s = sin(a);
+    mat3 rx = mat3(1.0, 0.0, 0.0, 0.0, c, s, 0.0, -s, c);
+    mat3 ry = mat3(c, 0.0, -s, 0.0, 1.0, 0.0, s, 0.0, c);
+    return rx * ry;
+  }
+
+  vec3 ornamentOffset() {
+    // Smootherstep the global progress
+    float p = clamp(uProgress, 0.0, 1.0);
+    float localP = p * p * p * (p * (p * 6.0 - 15.0) + 10.0);
+    vec3 destination = mix(aMorphFrom, aMorphTo, uMorphBlend);
+    vec3 pos = mix(aTarget + forceOffset(aTarget), destination, localP);
+    // Physics mode: the CPU simulation places the ornament instead
+    if (uPhysics > 0.5) pos = aPhysics + forceOffset(aTarget) * (1.0 - localP);
+    // Add some float (not while lying on the floor)
+    pos.y += sin(uTime * aSpeed + aTarget.x) * 0.05 * (1.0 - uPhysics * localP);
+    return pos;
+  }
+`;
+
+type OrnamentUniforms = {
+  uProgress: { value: number };
+  uTime: { value: number };
+  uMorphBlend: { value: number };
+  uPhysics: { value: number };
+  uForce: { value: Float32Array };
+  uForcePush: { value: number };
+};
+
+const patchOrnamentMaterial = <T extends THREE.Material>(material: T, uniforms: OrnamentUniforms): T => {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${ornamentShaderHeader}`)
+      .replace('#include <beginnormal_vertex>', '#include <beginnormal_vertex>\n  objectNormal = ornamentRotation() * objectNormal;')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\n  transformed = ornamentRotation() * (transformed * aScale) + ornamentOffset();');
+  };
+  return material;
+};
+
+// --- PER-TYPE INSTANCE DATA ---
+interface OrnamentBatch {
+  indices: number[]; // Index of each instance in the full ornament list
+  attributes: Record<'aTarget' | 'aMorphFrom' | 'aMorphTo' | 'aPhysics' | 'aScale' | 'aSpeed' | 'aRotSpeed', THREE.InstancedBufferAttribute>;
+  colors: THREE.InstancedBufferAttribute;
+}
+
+const buildBatch = (ornaments: OrnamentData[], type: OrnamentType): OrnamentBatch => {
+  const indices = ornaments.flatMap((o, i) => (o.type === type ? [i] : []));
+  const count = indices.length;
+  const target = new Float32Array(count * 3);
+  const morphFrom = new Float32Array(count * 3);
+  const morphTo = new Float32Array(count * 3);
+  const scale = new Float32Array(count);
+  const speed = new Float32Array(count);
+  const rotSpeed = new Float32Array(count);
+  const colors = new Float32Array(count * 3);
+  const color = new THREE.Color();
+
+  indices.forEach((index, i) => {
+    const o = ornaments[index];
+    target.set(o.position.target, i * 3);
+    morphFrom.set(o.position.chaos, i * 3);
+    morphTo.set(o.position.chaos, i * 3);
+    scale[i] = o.size;
+    speed[i] = o.speed;
+    rotSpeed[i] = o.rotSpeed;
+    color.set(o.color).toArray(colors, i * 3);
+  });
+
+  return {
+    indices,
+    attributes: {
+      aTarget: new THREE.InstancedBufferAttribute(target, 3),
+      aMorphFrom: new THREE.InstancedBufferAttribute(morphFrom, 3),
+      aMorphTo: new THREE.InstancedBufferAttribute(morphTo, 3),
+      aPhysics: new THREE.InstancedBufferAttribute(target.slice(), 3),
+      aScale: new THREE.InstancedBufferAttribute(scale, 1),
+      aSpeed: new THREE.InstancedBufferAttribute(speed, 1),
+      aRotSpeed: new THREE.InstancedBufferAttribute(rotSpeed, 1),
+    },
+    colors: new THREE.InstancedBufferAttribute(colors, 3),
+  };
+};
+
+// Copies this batch's slice of the shared morph destinations into its attributes
+const gatherMorph = (batch: OrnamentBatch, morph: MorphState) => {
+  const from = batch.attributes.aMorphFrom.array as Float32Array;
+  const to = batch.attributes.aMorphTo.array as Float32Array;
+  batch.indices.forEach((index, i) => {
+    for (let k = 0; k < 3; k++) {
+      from[i * 3 + k] = morph.from[index * 3 + k];
+      to[i * 3 + k] = morph.to[index * 3 + k];
+    }
+  });
+  batch.attributes.aMorphFrom.needsUpdate = true;
+  batch.attributes.aMorphTo.needsUpdate = true;
+};
+
+// Copies this batch's slice of the simulated positions
+const gatherPhysics = (batch: OrnamentBatch, positions: Float32Array) => {
+  const out = batch.attributes.aPhysics.array as Float32Array;
+  batch.indices.forEach((index, i) => {
+    out[i * 3] = positions[index * 3];
+    out[i * 3 + 1] = positions[index * 3 + 1];
+    out[i * 3 + 2] = positions[index * 3 + 2];
+  });
+  batch.attributes.aPhysics.needsUpdate = true;
+};
+
+const withBatch = (geometry: THREE.BufferGeometry, batch: OrnamentBatch) => {
+  Object.entries(batch.attributes).forEach(([name, attribute]) => geometry.setAttribute(name, attribute));
+  return geometry;
+};
+
+// Cat Ears, baked in bauble space
+const createEarGeometry = () => mergeGeometries([
+  new THREE.ConeGeometry(0.3, 0.6, 16).rotateZ(0.4).translate(-0.4, 0.6, 0),
+  new THREE.ConeGeometry(0.3, 0.6, 16).rotateZ(-0.4).translate(0.4, 0.6, 0),
+]);
+
+interface OrnamentSystemProps {
+  ornaments: OrnamentData[];
+  morph: MorphState;
+  earColor: string;
+  progress: React.MutableRefObject<number>;
+  detail?: number; // 0..1 share of each batch drawn
+  forceField?: ForceField; // Local scatter under touches
+  physics?: OrnamentPhysics | null; // Simulated positions replace the morph
+}
+
+export const OrnamentSystem: React.FC<OrnamentSystemProps> = ({ ornaments, morph, earColor, progress, detail = 1, forceField, physics = null }) => {
+  const uniforms = useMemo<OrnamentUniforms>(() => ({
+    uProgress: { value: 0 },
+    uTime: { value: 0 },
+    uMorphBlend: { value: 1 },
+    uPhysics: { value: 0 },
+    uForce: { value: new Float32Array(MAX_FORCE_POINTS * 4) },
+    uForcePush: { value: FORCE_PUSH },
+  }), []);
+  const morphVersion = useRef(-1);
+  const physicsVersion = useRef(-1);
+
+  const balls = useMemo(() => buildBatch(ornaments, 'ball'), [ornaments]);
+  const gifts = useMemo(() => buildBatch(ornaments, 'gift'), [ornaments]);
+
+  const geometries = useMemo(() => ({
+    // Cat Head Bauble
+    ball: withBatch(new THREE.SphereGeometry(1, 16, 16), balls),
+    ears: withBatch(createEarGeometry(), balls),
+    gift: withBatch(new THREE.BoxGeometry(), gifts),
+  }), [balls, gifts]);
+
+  useEffect(() => () => Object.values(geometries).forEach(g => g.dispose()), [geometries]);
+
+  // Fresh batches must re-read the morph destinations
+  useEffect(() => { morphVersion.current = -1; }, [balls, gifts]);
+  useEffect(() => { physicsVersion.current = -1; }, [balls, gifts, physics]);
+
+  const materials = useMemo(() => ({
+    ball: patchOrnamentMaterial(new THREE.MeshStandardMaterial({ metalness: 1, roughness: 0.1, envMapIntensity: 2 }), uniforms),
+    ears: patchOrnamentMaterial(new THREE.MeshStandardMaterial({ metalness: 1 }), uniforms),
+    gift: patchOrnamentMaterial(new THREE.MeshStandardMaterial({ metalness: 0.8, roughness: 0.2 }), uniforms),
+    // Shadows need the same vertex transform
+    depth: patchOrnamentMaterial(new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking }), uniforms),
+  }), [uniforms]);
+
+  useEffect(() => () => Object.values(materials).forEach(m => m.dispose()), [materials]);
+
+  useEffect(() => {
+    materials.ears.color.set(earColor);
+  }, [materials, earColor]);
+
+  useFrame((state) => {
+    uniforms.uProgress.value = progress.current;
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uMorphBlend.value = morph.blend;
+    if (forceField) {
+      forceField.write(uniforms.uForce.value);
+      uniforms.uForcePush.value = forceField.push;
+    }
+
+    if (morphVersion.current !== morph.version) {
+      morphVersion.current = morph.version;
+      gatherMorph(balls, morph);
+      gatherMorph(gifts, morph);
+    }
+
+    uniforms.uPhysics.value = physics ? 1 : 0;
+    if (physics && physicsVersion.current !== physics.version) {
+      physicsVersion.current = physics.version;
+      gatherPhysics(balls, physics.positions);
+      gatherPhysics(gifts, physics.positions);
+    }
+  });
+
+  const ballCount = Math.ceil(balls.indices.length * detail);
+  const giftCount = Math.ceil(gifts.indices.length * detail);
+
+  return (
+    <group>
+      <OrnamentInstances geometry={geometries.ball} material={materials.ball} depthMaterial={materials.depth} count={balls.indices.length} drawCount={ballCount} colors={balls.colors} />
+      <OrnamentInstances geometry={geometries.ears} material={materials.ears} depthMaterial={materials.depth} count={balls.indices.length} drawCount={ballCount} />
+      <OrnamentInstances geometry={geometries.gift} material={materials.gift} depthMaterial={materials.depth} count={gifts.indices.length} drawCount={giftCount} colors={gifts.colors} />
+    </group>
+  );
+};
+
+interface OrnamentInstancesProps {
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  depthMaterial: THREE.Material;
+  count: number;
+  drawCount: number;
+  colors?: THREE.InstancedBufferAttribute;
+}
+
+const OrnamentInstances: React.FC<OrnamentInstancesProps> = ({ geometry, material, depthMaterial, count, drawCount, colors }) => {
+  const ref = useRef<THREE.InstancedMesh>(null);
+
+  // Instance colors must exist before the first compile so the shader includes them
+  useLayoutEffect(() => {
+    if (ref.current && colors) ref.current.instanceColor = colors;
+  }, [colors]);
+
+  return (
+    <instancedMesh
+      key={geometry.uuid}
+      ref={ref}
+      args={[geometry, material, count]}
+      count={drawCount}
+      customDepthMaterial={depthMaterial}
+      // Positions come from the shader, so the instance bounds are meaningless
+      frustumCulled={false}
+      castShadow
+      receiveShadow
+    />
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MathUtils } from 'three';
+import { deriveRng } from './random';
+import { generateSnowflakes } from './snow';
+
+// --- GPU SNOWFALL ---
+// Every flake's life (fall, drift, rest on the floor, fade) is a closed-form
+// function of time in the vertex shader. The shockwave and the gust are
+// displacements on top, so the CPU only updates a handful of uniforms.
+
+const snowVertexShader = `
+  uniform float uTime;
+  uniform vec2 uWind;
+  uniform float uTop;
+  uniform float uFloorY;
+  uniform float uSettle;        // Seconds a flake lies on the floor
+  uniform float uShockTime;     // When the last explosion started (-1000 = never)
+  uniform float uShockStrength;
+  uniform vec3 uGust;           // Gust source (hand or mouse)
+  uniform float uGustStrength;
+  attribute vec3 aSpawn;        // x, phase, z
+  attribute float aFall;
+  attribute float aSize;
+
+  varying float vAlpha;
+
+  void main() {
+    float fallTime = (uTop - uFloorY) / aFall;
+    float period = fallTime + uSettle;
+    float age = mod(uTime + aSpawn.y * period, period);
+    float fallAge = min(age, fallTime);
+    float airborne = step(age, fallTime);
+
+    // Fall and drift; spawn upwind so the flakes land around the tree
+    vec3 pos = vec3(aSpawn.x, uTop - fallAge * aFall, aSpawn.z);
+    pos.xz += uWind * (fallAge - fallTime * 0.5);
+    pos.xz += vec2(sin(fallAge * 1.3 + aSpawn.x), cos(fallAge * 1.1 + aSpawn.z)) * 0.3;
+
+    // Shockwave: flakes alive when the tree exploded are blown outward
+    float shockAge = uTime - uShockTime;
+    if (shockAge > 0.0 && uTime - age < uShockTime) {
+      float dist = length(pos.xz) + 0.001;
+      float push = uShockStrength * exp(-dist * 0.15) * (1.0 - exp(-shockAge * 3.0));
+      pos.xz += pos.xz / dist * push;
+      pos.y += push * 0.3 * airborne;
+    }
+
+    // Gust: push away from the source, only along the floor once settled
+    vec3 away = pos - uGust;
+    float gustDist = length(away) + 0.001;
+    vec3 gust = away / gustDist * uGustStrength * exp(-gustDist * gustDist / 8.0);
+    pos += vec3(gust.x, gust.y * airborne, gust.z);
+    pos.y = max(pos.y, uFloorY);
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = 25.0 * aSize / -mvPosition.z;
+
+    // Fade in at the top, melt away at the end of the rest
+    vAlpha = smoothstep(0.0, 1.0, age) * (1.0 - smoothstep(period - uSettle * 0.4, period, age));
+  }
+`;
+
+const snowFragmentShader = `
+  varying float vAlpha;
+  void main() {
+    float r = distance(gl_PointCoord, vec2(0.5));
+    if (r > 0.5) discard;
+    gl_FragColor = vec4(vec3(0.9, 0.95, 1.0), vAlpha * (1.0 - smoothstep(0.2, 0.5, r)));
+  }
+`;
+
+const SNOW_TOP = 12;
+const SHOCK_STRENGTH = 6;
+const MAX_GUST = 3;
+
+interface SnowfallProps {
+  count: number;
+  wind: [number, number];
+  floorY: number;                  // In the parent's space
+  unleashed: boolean;              // A false -> true change fires the shockwave
+  handPos: { x: number, y: number };
+  seed?: number;
+}
+
+export const Snowfall: React.FC<SnowfallProps> = ({ count, wind, floorY, unleashed, handPos, seed = 0 }) => {
+  const flakes = useMemo(() => generateSnowflakes(count, deriveRng(seed, 'snow')), [count, seed]);
+  const wasUnleashed = useRef(unleashed);
+  const lastHand = useRef({ x: handPos.x, y: handPos.y });
+  const gustStrength = useRef(0);
+
+  const uniforms = useMemo(() => ({
+    uTime: { value: 0 },
+    uWind: { value: new THREE.Vector2() },
+    uTop: { value: SNOW_TOP },
+    uFloorY: { value: floorY },
+    uSettle: { value: 8 },
+    uShockTime: { value: -1000 },
+    uShockStrength: { value: SHOCK_STRENGTH },
+    uGust: { value: new THREE.Vector3() },
+    uGustStrength: { value: 0 },
+  }), []);
+
+  useFrame((state, delta) => {
+    const time = state.clock.elapsedTime;
+    uniforms.uTime.value = time;
+    uniforms.uWind.value.set(wind[0], wind[1]);
+    uniforms.uFloorY.value = floorY;
+
+    if (unleashed && !wasUnleashed.current) uniforms.uShockTime.value = time;
+    wasUnleashed.current = unleashed;
+
+    // A moving hand stirs the air; a still one does nothing
+    const speed = Math.hypot(handPos.x - lastHand.current.x, handPos.y - lastHand.current.y) / Math.max(delta, 1e-3);
+    lastHand.current = { x: handPos.x, y: handPos.y };
+    gustStrength.current = MathUtils.damp(gustStrength.current, Math.min(speed, MAX_GUST), 4, delta);
+    uniforms.uGust.value.set(handPos.x * 6, 3 - handPos.y * 4, 4);
+    uniforms.uGustStrength.value = gustStrength.current;
+  });
+
+  if (count === 0) return null;
+
+  return (
+    <points key={`${count}-${seed}`} frustumCulled={false}>
+      <bufferGeometry>
+        {/* position is unused by the shader but sizes the draw call */}
+        <bufferAttribute attach="attributes-position" count={count} array={flakes.spawn} itemSize={3} />
+        <bufferAttribute attach="attributes-aSpawn" count={count} array={flakes.spawn} itemSize={3} />
+        <bufferAttribute attach="attributes-aFall" count={count} array={flakes.fall} itemSize={1} />
+        <bufferAttribute attach="attributes-aSize" count={count} array={flakes.size} itemSize={1} />
+      </bufferGeometry>
+      <shaderMaterial
+        vertexShader={snowVertexShader}
+        fragmentShader={snowFragmentShader}
+        uniforms={uniforms}
+        transparent
+        depthWrite={false}
+      />
+    </points>
+  );
+};
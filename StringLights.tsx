@@ -0,0 +1,69 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MathUtils } from 'three';
+import { LightBulb } from './treeGenerator';
+import { LightProgram, createLightEngine } from './lightPatterns';
+import { ForceField } from './forceField';
+import { Vector3Array } from './types';
+
+// --- STRING LIGHTS ---
+// One instanced mesh of unlit bulbs. A few hundred at most, so positions and
+// colors are written on the CPU each frame; the colors go past 1 to bloom.
+
+interface StringLightsProps {
+  bulbs: LightBulb[];
+  program: LightProgram;
+  palette: string[];
+  size: number;
+  progress: React.MutableRefObject<number>;
+  forceField?: ForceField;
+}
+
+const dummy = new THREE.Object3D();
+const pushed = new THREE.Vector3();
+const offsetVector = new THREE.Vector3();
+const offset: Vector3Array = [0, 0, 0];
+
+export const StringLights: React.FC<StringLightsProps> = ({ bulbs, program, palette, size, progress, forceField }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const colors = useMemo(() => new Float32Array(bulbs.length * 3), [bulbs]);
+  const shade = useMemo(() => createLightEngine(program, bulbs, palette), [program, bulbs, palette]);
+  const poses = useMemo(() => bulbs.map(b => ({
+    target: new THREE.Vector3(...b.position.target),
+    chaos: new THREE.Vector3(...b.position.chaos),
+  })), [bulbs]);
+
+  useLayoutEffect(() => {
+    // Must exist before the first render so the material compiles with instance colors
+    if (meshRef.current) meshRef.current.instanceColor = new THREE.InstancedBufferAttribute(colors, 3);
+  }, [colors]);
+
+  useFrame((state) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    // Scatter on the same curve as the ornaments; bulbs shrink a little in flight
+    const p = MathUtils.smootherstep(progress.current, 0, 1);
+    dummy.scale.setScalar(size * (1 - p * 0.3));
+    const field = forceField && forceField.size() > 0 ? forceField : null;
+    poses.forEach((pose, i) => {
+      pushed.copy(pose.target);
+      // Bulbs near a touch are pushed aside like the needles around them
+      if (field) pushed.add(offsetVector.fromArray(field.offsetAt(bulbs[i].position.target, offset.fill(0))));
+      dummy.position.lerpVectors(pushed, pose.chaos, p);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+
+    shade(state.clock.elapsedTime, colors);
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh key={bulbs.length} ref={meshRef} args={[undefined, undefined, bulbs.length]} frustumCulled={false}>
+      <sphereGeometry args={[1, 10, 10]} />
+      <meshBasicMaterial toneMapped={false} />
+    </instancedMesh>
+  );
+};
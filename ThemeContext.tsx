@@ -0,0 +1,45 @@
+import React, { createContext, useContext, useLayoutEffect, useMemo, useState } from 'react';
+import { Theme, ThemeName, THEMES, hexToRgbChannels, loadThemeSettings, resolveTheme, setUrlTheme } from './theme';
+
+interface ThemeContextValue {
+  theme: Theme;
+  setTheme: (name: ThemeName) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue>({ theme: THEMES.gold, setTheme: () => {} });
+
+// The active theme, for the overlay and (bridged by R3F) the Canvas
+export const useTheme = () => useContext(ThemeContext);
+
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings] = useState(() => loadThemeSettings());
+  const [name, setName] = useState<ThemeName>(settings.name);
+  const theme = useMemo(() => resolveTheme(name, settings.texts), [name, settings]);
+
+  // Tailwind's accent/page colors and display/accent fonts read these (see index.html)
+  useLayoutEffect(() => {
+    const root = document.documentElement.style;
+    root.setProperty('--theme-accent', hexToRgbChannels(theme.palette.accent));
+    root.setProperty('--theme-accent-deep', hexToRgbChannels(theme.palette.accentDeep));
+    root.setProperty('--theme-page', hexToRgbChannels(theme.palette.page));
+    root.setProperty('--theme-font-display', `'${theme.fonts.display}'`);
+    root.setProperty('--theme-font-accent', `'${theme.fonts.accent}'`);
+    document.title = `${theme.texts.name} ${theme.texts.title}`;
+  }, [theme]);
+
+  const value = useMemo<ThemeContextValue>(() => ({
+    theme,
+    setTheme: (next) => {
+      setUrlTheme(next); // Share links carry the theme
+      setName(next);
+    },
+  }), [theme]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+// A fixed theme for an embedded scene: leaves the host page's CSS, title and URL alone
+export const ThemeScope: React.FC<{ theme: Theme, children: React.ReactNode }> = ({ theme, children }) => {
+  const value = useMemo<ThemeContextValue>(() => ({ theme, setTheme: () => {} }), [theme]);
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
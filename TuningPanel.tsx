@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_SCENE_TUNING,
+  FOLIAGE_EASINGS,
+  FOLIAGE_WAVES,
+  SceneTuning,
+  loadTuningPresets,
+  parseSceneTuning,
+  readTuning,
+  saveTuningPresets,
+  toTuningFile,
+  updateTuning,
+} from './sceneTuning';
+import { isTextField } from './inputSources';
+import { downloadJson } from './download';
+import { useTheme } from './ThemeContext';
+
+// --- DEV TUNING PANEL ---
+// Hidden until the toggle key is pressed; edits the SceneTuning live.
+
+export const TUNING_TOGGLE_KEY = '`';
+
+type Field =
+  | { kind: 'number'; path: string; label: string; min: number; max: number; step: number }
+  | { kind: 'choice'; path: string; label: string; options: readonly string[] }
+  | { kind: 'position'; path: string; label: string }
+  | { kind: 'color'; path: string; label: string; themeColor: (palette: ThemeColors) => string };
+
+interface ThemeColors {
+  key: string;
+  fill: string;
+  accent: string;
+}
+
+const number = (path: string, label: string, min: number, max: number, step: number): Field => ({ kind: 'number', path, label, min, max, step });
+
+const light = (name: keyof ThemeColors, maxIntensity: number): Field[] => [
+  number(`lights.${name}.intensity`, `${name} intensity`, 0, maxIntensity, 0.1),
+  { kind: 'position', path: `lights.${name}.position`, label: `${name} position` },
+  { kind: 'color', path: `lights.${name}.color`, label: `${name} color`, themeColor: colors => colors[name] },
+];
+
+const SECTIONS: { title: string; fields: Field[] }[] = [
+  {
+    title: 'Bloom',
+    fields: [
+      number('bloom.threshold', 'Threshold', 0, 1.5, 0.01),
+      number('bloom.intensity', 'Intensity (× theme)', 0, 4, 0.05),
+      number('bloom.radius', 'Radius', 0, 1, 0.01),
+    ],
+  },
+  {
+    title: 'Vignette & Noise',
+    fields: [
+      number('vignette.offset', 'Vignette offset', 0, 1, 0.01),
+      number('vignette.darkness', 'Vignette darkness', 0, 2, 0.01),
+      number('noise.opacity', 'Noise opacity', 0, 0.5, 0.005),
+    ],
+  },
+  {
+    title: 'Fog',
+    fields: [
+      number('fog.near', 'Near', 0, 60, 0.5),
+      number('fog.far', 'Far', 0, 120, 0.5),
+    ],
+  },
+  {
+    title: 'Lights',
+    fields: [
+      number('lights.ambient', 'Ambient', 0, 2, 0.01),
+      ...light('key', 60),
+      ...light('fill', 20),
+      ...light('accent', 20),
+    ],
+  },
+  {
+    title: 'Floor',
+    fields: [
+      number('reflector.mixStrength', 'Mix strength', 0, 150, 1),
+      number('reflector.mirror', 'Mirror', 0, 1, 0.01),
+    ],
+  },
+  {
+    title: 'Foliage',
+    fields: [
+      { kind: 'choice', path: 'foliage.easing', label: 'Easing', options: FOLIAGE_EASINGS },
+      { kind: 'choice', path: 'foliage.wave', label: 'Wave', options: FOLIAGE_WAVES },
+      number('foliage.stagger', 'Stagger', 0, 0.9, 0.01),
+      number('foliage.twinkle', 'Tip twinkle', 0, 3, 0.05),
+      number('foliage.sway', 'Sway', 0, 0.3, 0.005),
+      number('foliage.needleSize', 'Needle size', 0.005, 0.08, 0.001),
+    ],
+  },
+  {
+    title: 'Damping (per second)',
+    fields: [
+      number('damping.unleash', 'Unleash', 0.1, 10, 0.1),
+      number('damping.reform', 'Reform', 0.1, 10, 0.1),
+      number('damping.rotation', 'Rotation', 0.1, 10, 0.1),
+      number('damping.morph', 'Morph', 0.1, 10, 0.1),
+      number('damping.scripted', 'Timeline', 0.1, 20, 0.1),
+    ],
+  },
+];
+
+const POSITION_RANGE = 30;
+const AXES = ['x', 'y', 'z'];
+
+const buttonClass = "px-2 py-1 rounded border border-accent/30 hover:border-accent transition-colors";
+
+interface TuningPanelProps {
+  tuning: SceneTuning;
+  onChange: (tuning: SceneTuning) => void;
+}
+
+export const TuningPanel: React.FC<TuningPanelProps> = ({ tuning, onChange }) => {
+  const { theme } = useTheme();
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState(loadTuningPresets);
+  const [presetName, setPresetName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== TUNING_TOGGLE_KEY || e.repeat || isTextField(e.target)) return;
+      setOpen(o => !o);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  useEffect(() => saveTuningPresets(presets), [presets]);
+
+  if (!open) return null;
+
+  const set = (path: string, value: unknown) => onChange(updateTuning(tuning, path, value));
+
+  const savePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(p => ({ ...p, [name]: tuning }));
+  };
+
+  const deletePreset = () => {
+    const name = presetName.trim();
+    setPresets(p => Object.fromEntries(Object.entries(p).filter(([n]) => n !== name)));
+  };
+
+  const importPreset = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseSceneTuning(JSON.parse(await file.text()));
+      const name = file.name.replace(/\.json$/i, '');
+      setPresets(p => ({ ...p, [name]: imported }));
+      setPresetName(name);
+      onChange(imported);
+      setError(null);
+    } catch (err) {
+      setError(`Import failed: ${(err as Error).message}`);
+    }
+  };
+
+  const renderField = (field: Field) => {
+    const value = readTuning(tuning, field.path);
+    switch (field.kind) {
+      case 'number':
+        return (
+          <label key={field.path} className="flex flex-col gap-0.5">
+            <span className="flex justify-between"><span>{field.label}</span><span className="tabular-nums">{(value as number).toFixed(field.step < 0.01 ? 3 : 2)}</span></span>
+            <input type="range" min={field.min} max={field.max} step={field.step} value={value as number} onChange={e => set(field.path, Number(e.target.value))} />
+          </label>
+        );
+      case 'choice':
+        return (
+          <label key={field.path} className="flex items-center justify-between gap-2">
+            <span>{field.label}</span>
+            <select value={value as string} onChange={e => set(field.path, e.target.value)} className="bg-black/60 border border-accent/30 rounded px-1 text-accent">
+              {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </label>
+        );
+      case 'position':
+        return (
+          <div key={field.path} className="flex flex-col gap-0.5">
+            <span>{field.label}</span>
+            {(value as number[]).map((v, axis) => (
+              <label key={axis} className="flex items-center gap-2">
+                <span className="w-3">{AXES[axis]}</span>
+                <input
+                  type="range"
+                  className="flex-1"
+                  min={-POSITION_RANGE}
+                  max={POSITION_RANGE}
+                  step={0.5}
+                  value={v}
+                  onChange={e => set(field.path, (value as number[]).map((old, i) => (i === axis ? Number(e.target.value) : old)))}
+                />
+                <span className="w-8 text-right tabular-nums">{v}</span>
+              </label>
+            ))}
+          </div>
+        );
+      case 'color':
+        return (
+          <div key={field.path} className="flex items-center justify-between gap-2">
+            <span>{field.label}</span>
+            <span className="flex items-center gap-1">
+              <input type="color" value={(value as string | null) ?? field.themeColor(theme.lights)} onChange={e => set(field.path, e.target.value)} />
+              <button onClick={() => set(field.path, null)} className={`${buttonClass} ${value === null ? 'border-accent' : ''}`}>Theme</button>
+            </span>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div data-input-ignore className="absolute top-4 left-4 z-50 w-72 max-h-[90vh] overflow-y-auto p-3 rounded-lg bg-black/85 border border-accent/40 flex flex-col gap-3 font-mono text-[10px] text-accent">
+      <div className="flex justify-between items-center">
+        <span className="uppercase tracking-[0.2em]">Scene Tuning</span>
+        <button onClick={() => setOpen(false)} className={buttonClass} aria-label="Close tuning panel">✕</button>
+      </div>
+
+      {/* Presets */}
+      <form onSubmit={savePreset} className="flex flex-col gap-1">
+        <div className="flex gap-1">
+          <input
+            list="tuning-presets"
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 bg-black/60 border border-accent/30 rounded px-1"
+          />
+          <datalist id="tuning-presets">
+            {Object.keys(presets).map(name => <option key={name} value={name} />)}
+          </datalist>
+          <button type="submit" className={buttonClass}>Save</button>
+          <button type="button" onClick={() => presets[presetName.trim()] && onChange(presets[presetName.trim()])} disabled={!presets[presetName.trim()]} className={`${buttonClass} disabled:opacity-40`}>Load</button>
+          <button type="button" onClick={deletePreset} disabled={!presets[presetName.trim()]} className={`${buttonClass} disabled:opacity-40`}>Del</button>
+        </div>
+        <div className="flex gap-1">
+          <button type="button" onClick={() => downloadJson(toTuningFile(tuning), `${presetName.trim() || 'scene-tuning'}.json`)} className={buttonClass}>Export JSON</button>
+          <label className={`${buttonClass} cursor-pointer`}>
+            Import JSON
+            <input type="file" accept="application/json,.json" className="hidden" onChange={importPreset} />
+          </label>
+          <button type="button" onClick={() => onChange(DEFAULT_SCENE_TUNING)} className={buttonClass}>Reset</button>
+        </div>
+        {error && <span className="text-red-300">{error}</span>}
+      </form>
+
+      {SECTIONS.map(section => (
+        <fieldset key={section.title} className="flex flex-col gap-1.5 border-t border-accent/20 pt-2">
+          <legend className="uppercase tracking-[0.2em] opacity-70">{section.title}</legend>
+          {section.fields.map(renderField)}
+        </fieldset>
+      ))}
+    </div>
+  );
+};
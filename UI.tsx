@@ -1,36 +1,89 @@
 import React, { useState, useEffect } from 'react';
+import { TimelineCaption } from './timeline';
+import { THEME_NAMES, THEMES, ThemeName } from './theme';
+import { useTheme } from './ThemeContext';
 
-export const UI: React.FC = () => {
+interface UIProps {
+  seed: number;
+  onReseed: () => void;
+  caption?: TimelineCaption | null; // Set by a playing timeline
+}
+
+export const UI: React.FC<UIProps> = ({ seed, onReseed, caption = null }) => {
   const [visible, setVisible] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const { theme, setTheme } = useTheme();
+  const texts = theme.texts;
 
   useEffect(() => {
     const timer = setTimeout(() => setVisible(true), 1000);
     return () => clearTimeout(timer);
   }, []);
 
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.warn("Clipboard unavailable", e);
+    }
+  };
+
   return (
     <div className={`absolute inset-0 pointer-events-none flex flex-col justify-between p-8 md:p-16 transition-opacity duration-[2000ms] ${visible ? 'opacity-100' : 'opacity-0'}`}>
       
       {/* Brand Header */}
       <div className="flex flex-col items-center md:items-start text-center md:text-left z-10">
-        <h2 className="text-[#FFD700] text-xs font-['Cinzel'] font-black tracking-[0.5em] mb-2 uppercase drop-shadow-lg shadow-gold">
-          The Presidential Collection
+        <h2 className="text-accent text-xs font-accent font-black tracking-[0.5em] mb-2 uppercase drop-shadow-lg shadow-gold">
+          {texts.kicker}
         </h2>
-        <h1 className="text-white text-6xl md:text-8xl font-['Playfair_Display'] font-bold leading-[0.9] drop-shadow-2xl">
-          ANNA QIAO'S<br />
-          <span className="text-transparent bg-clip-text bg-gradient-to-b from-[#FFD700] to-[#B8860B] font-['Cinzel'] block mt-2 drop-shadow-sm filter blur-[0.5px]">
-            CHRISTMAS TREE
+        <h1 className="text-white text-6xl md:text-8xl font-display font-bold leading-[0.9] drop-shadow-2xl">
+          {texts.name}<br />
+          <span className="text-transparent bg-clip-text bg-gradient-to-b from-accent to-accent-deep font-accent block mt-2 drop-shadow-sm filter blur-[0.5px]">
+            {texts.title}
           </span>
         </h1>
       </div>
 
+      {/* Timeline caption */}
+      <div className={`absolute inset-x-0 top-1/3 flex flex-col items-center text-center transition-opacity duration-1000 ${caption ? 'opacity-100' : 'opacity-0'}`} aria-live="polite">
+        {caption && (
+          <>
+            <p className="text-white text-3xl md:text-5xl font-display font-bold drop-shadow-2xl">{caption.title}</p>
+            {caption.subtitle && (
+              <p className="mt-3 text-accent font-accent text-xs tracking-[0.4em] uppercase drop-shadow-lg">{caption.subtitle}</p>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Side Decoration */}
       <div className="absolute top-1/2 right-12 transform -translate-y-1/2 hidden md:flex flex-col gap-6 items-center">
-         <div className="w-[2px] h-40 bg-gradient-to-b from-transparent via-[#FFD700] to-transparent shadow-[0_0_15px_#FFD700]"></div>
-         <span className="text-[#FFD700] font-['Cinzel'] text-xs vertical-rl tracking-[0.5em] font-bold drop-shadow-md" style={{ writingMode: 'vertical-rl' }}>
-            EST. 2025
+         <div className="w-[2px] h-40 bg-gradient-to-b from-transparent via-accent to-transparent shadow-[0_0_15px_rgb(var(--theme-accent))]"></div>
+         <span className="text-accent font-accent text-xs vertical-rl tracking-[0.5em] font-bold drop-shadow-md" style={{ writingMode: 'vertical-rl' }}>
+            {texts.badge}
          </span>
-         <div className="w-[2px] h-40 bg-gradient-to-b from-transparent via-[#FFD700] to-transparent shadow-[0_0_15px_#FFD700]"></div>
+         <div className="w-[2px] h-40 bg-gradient-to-b from-transparent via-accent to-transparent shadow-[0_0_15px_rgb(var(--theme-accent))]"></div>
+      </div>
+
+      {/* Seed: every tree is reproducible from this number */}
+      <div className="absolute top-8 right-8 md:top-16 md:right-16 flex items-center gap-3 pointer-events-auto font-accent text-[10px] tracking-[0.3em] uppercase text-accent">
+        <select
+          value={theme.name}
+          onChange={e => setTheme(e.target.value as ThemeName)}
+          aria-label="Theme"
+          className="bg-black/60 border border-accent/40 rounded px-1 py-1 text-accent uppercase"
+        >
+          {THEME_NAMES.map(name => <option key={name} value={name}>{THEMES[name].label}</option>)}
+        </select>
+        <span className="opacity-70">Tree No. {seed}</span>
+        <button onClick={onReseed} className="px-2 py-1 border border-accent/40 rounded hover:bg-accent/10 transition-colors">
+          New Tree
+        </button>
+        <button onClick={handleCopyLink} className="px-2 py-1 border border-accent/40 rounded hover:bg-accent/10 transition-colors">
+          {copied ? "Copied" : "Share"}
+        </button>
       </div>
       
     </div>
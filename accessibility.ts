@@ -0,0 +1,78 @@
+import { MorphTargetName } from './types';
+import { CameraStatus } from './camera';
+
+// --- ACCESSIBILITY ---
+// Reduced motion and screen reader announcements.
+// None of it is a separate mode: the same scene state is driven by every
+// input, and these settings only change how it moves and what gets said.
+
+// With reduced motion the tree loosens a little instead of exploding, and eases slower
+export const REDUCED_MOTION = {
+  maxProgress: 0.15,
+  rateScale: 0.5,
+  forceScale: 0.3, // Local scatter under the hand
+};
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ *   ?motion=reduce  always reduce motion
+ *   ?motion=full    ignore the system setting
+ * Otherwise follows prefers-reduced-motion. Returns null when the URL doesn't say.
+ */
+export const loadMotionOverride = (search: string = window.location.search): boolean | null => {
+  const motion = new URLSearchParams(search).get('motion');
+  if (motion === 'reduce') return true;
+  if (motion === 'full') return false;
+  return null;
+};
+
+export const prefersReducedMotion = () => window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false;
+
+// Calls back whenever the system setting changes; returns the unsubscribe
+export const watchReducedMotion = (onChange: (reduced: boolean) => void) => {
+  const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+  if (!query) return () => {};
+  const handleChange = (e: MediaQueryListEvent) => onChange(e.matches);
+  query.addEventListener('change', handleChange);
+  return () => query.removeEventListener('change', handleChange);
+};
+
+// --- ANNOUNCEMENTS ---
+export const KEYBOARD_HELP =
+  'Space or Enter unleashes and reforms the tree. Left and right arrows orbit. Up launches the topper. Down or R resets the view. M picks the next formation.';
+
+export interface AnnouncedState {
+  unleashed: boolean;
+  morphTarget: MorphTargetName;
+  rotation: number; // Radians
+  topperLaunches: number;
+}
+
+const toDegrees = (radians: number) => ((Math.round((radians * 180) / Math.PI) % 360) + 360) % 360;
+
+/** What a screen reader should hear about a change, or null if nothing worth saying changed. */
+export const describeChange = (before: AnnouncedState, after: AnnouncedState, reducedMotion: boolean): string | null => {
+  if (after.unleashed !== before.unleashed) {
+    if (!after.unleashed) return 'The tree reformed.';
+    if (reducedMotion) return 'The tree loosened.';
+    return after.morphTarget === 'chaos' ? 'The tree exploded.' : `The tree flew into the ${after.morphTarget} formation.`;
+  }
+  if (after.morphTarget !== before.morphTarget) return `Formation: ${after.morphTarget}.`;
+  if (after.topperLaunches !== before.topperLaunches) return 'The topper launched.';
+  if (after.rotation !== before.rotation) {
+    return after.rotation === 0 ? 'View reset.' : `Orbited to ${toDegrees(after.rotation)} degrees.`;
+  }
+  return null;
+};
+
+export const describeCameraStatus = (status: CameraStatus, error: string | null): string | null => {
+  switch (status) {
+    case 'active': return 'Camera on. Wave to unleash the tree.';
+    case 'paused': return 'Camera paused.';
+    case 'off': return 'Camera off. Use the pointer or keyboard.';
+    case 'denied':
+    case 'unavailable': return error;
+    default: return null;
+  }
+};
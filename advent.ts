@@ -0,0 +1,114 @@
+import { Timeline, parseTimeline } from './timeline';
+
+// --- ADVENT CALENDAR ---
+// Through December the tree fills up day by day: each door unlocks another
+// batch of the generated ornaments, and a few days bring a special decoration.
+// Everything is a pure function of the date, so any day can be previewed by
+// handing in another clock (?now=, or the `clock` prop on Experience).
+
+export type Clock = () => Date;
+
+export type AdventSpecial = 'lights' | 'snow' | 'topper';
+
+export const ADVENT_SPECIALS: Record<number, { special: AdventSpecial; label: string }> = {
+  6: { special: 'lights', label: "The lights go on" },
+  13: { special: 'snow', label: "The first snow" },
+  24: { special: 'topper', label: "The topper is lit" },
+};
+
+const LAST_DOOR = 24;
+const BASE_SHARE = 0.2; // Ornaments on the tree before the first door
+
+export interface AdventState {
+  day: number;            // 0 outside December, 1-24, 25 from Christmas Day
+  ornamentShare: number;  // 0..1 share of the generated ornaments hung
+  unlocked: Record<AdventSpecial, boolean>;
+  today: string;          // What today's door brought
+  christmas: number;      // The Christmas midnight being counted down to (ms)
+  untilChristmas: number; // ms, 0 on Christmas Day
+}
+
+// The coming Christmas midnight; on Christmas Day itself, that morning's
+const nextChristmas = (now: Date) => {
+  const thisYear = new Date(now.getFullYear(), 11, 25);
+  return now.getTime() < new Date(now.getFullYear(), 11, 26).getTime()
+    ? thisYear
+    : new Date(now.getFullYear() + 1, 11, 25);
+};
+
+export const adventState = (now: Date): AdventState => {
+  const day = now.getMonth() === 11 ? Math.min(now.getDate(), LAST_DOOR + 1) : 0;
+  const christmas = nextChristmas(now).getTime();
+  const special = ADVENT_SPECIALS[day];
+  return {
+    day,
+    ornamentShare: BASE_SHARE + (1 - BASE_SHARE) * Math.min(day / LAST_DOOR, 1),
+    unlocked: {
+      lights: day >= 6,
+      snow: day >= 13,
+      topper: day >= 24,
+    },
+    today: day > LAST_DOOR ? "Merry Christmas" : special ? special.label : day > 0 ? "New ornaments" : "",
+    christmas,
+    untilChristmas: Math.max(0, christmas - now.getTime()),
+  };
+};
+
+/** "12d 04:05:09" */
+export const formatCountdown = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const days = Math.floor(seconds / 86400);
+  const time = `${pad(Math.floor(seconds / 3600) % 24)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+  return days > 0 ? `${days}d ${time}` : time;
+};
+
+// --- CLOCK ---
+/** A clock that starts at `start` and runs in real time from there. */
+export const createClock = (start?: Date): Clock => {
+  if (!start) return () => new Date();
+  const offset = start.getTime() - Date.now();
+  return () => new Date(Date.now() + offset);
+};
+
+export interface AdventSettings {
+  enabled: boolean;
+  clock: Clock;
+}
+
+/**
+ *   ?advent=on                  the calendar outside December too (on through December by default)
+ *   ?advent=off                 never
+ *   ?now=2026-12-24T23:59:30    pretend it is this (local) time; the clock runs on from there
+ *
+ * A `clock` handed in (the Experience prop) replaces ?now=, and decides whether it is December too.
+ */
+export const loadAdventSettings = (search: string = window.location.search, override?: Clock): AdventSettings => {
+  const params = new URLSearchParams(search);
+  const start = params.get('now') ? new Date(params.get('now')!) : null;
+  const clock = override ?? createClock(start && !Number.isNaN(start.getTime()) ? start : undefined);
+  const mode = params.get('advent');
+  const enabled = mode === 'off' ? false : mode === 'on' || mode === '' || clock().getMonth() === 11;
+  return { enabled, clock };
+};
+
+// --- MIDNIGHT CELEBRATION ---
+// Played through the timeline driver when the countdown reaches zero
+export const CELEBRATION_TIMELINE: Timeline = parseTimeline({
+  duration: 30,
+  progress: [
+    { time: 0, value: 0 },
+    { time: 2, value: 1, easing: 'easeOut' },
+    { time: 20, value: 1 },
+    { time: 26, value: 0, easing: 'easeInOut' },
+  ],
+  cues: [
+    { time: 0, type: 'caption', caption: { title: 'Merry Christmas', subtitle: 'It is midnight' } },
+    { time: 0, type: 'lights', pattern: 'colorWheel' },
+    { time: 1, type: 'launchTopper' },
+    { time: 8, type: 'launchTopper' },
+    { time: 12, type: 'lights', pattern: 'chase' },
+    { time: 16, type: 'launchTopper' },
+    { time: 24, type: 'caption', caption: null },
+  ],
+});
@@ -0,0 +1,246 @@
+// --- AUDIO ANALYSIS ---
+// Web Audio input (microphone or a local file) reduced to a few features per
+// frame, and configurable mappings from those features to scene parameters.
+
+export interface AudioFeatures {
+  loudness: number; // 0..1 RMS
+  bass: number;     // 0..1 band energies
+  mid: number;
+  treble: number;
+  beat: boolean;
+}
+
+export type AudioFeatureName = 'loudness' | 'bass' | 'mid' | 'treble' | 'beat';
+export type AudioTargetName = 'shimmer' | 'topperLight' | 'bloom' | 'pulse';
+
+export interface AudioMapping {
+  source: AudioFeatureName;
+  gain: number;
+}
+
+export type AudioMappings = Record<AudioTargetName, AudioMapping>;
+
+export const DEFAULT_AUDIO_MAPPINGS: AudioMappings = {
+  shimmer: { source: 'treble', gain: 1.5 },     // Needle sparkle
+  topperLight: { source: 'loudness', gain: 3 }, // Extra topper light
+  bloom: { source: 'bass', gain: 1.2 },         // Extra bloom
+  pulse: { source: 'beat', gain: 0.35 },        // Kick towards chaos on beats
+};
+
+export const AUDIO_FEATURES: AudioFeatureName[] = ['loudness', 'bass', 'mid', 'treble', 'beat'];
+export const AUDIO_TARGETS: AudioTargetName[] = ['shimmer', 'topperLight', 'bloom', 'pulse'];
+
+// What the scene reads every frame (all 0 when audio is off)
+export interface AudioReaction {
+  shimmer: number;
+  topperLight: number;
+  bloom: number;
+  pulse: number;
+}
+
+export const createAudioReaction = (): AudioReaction => ({ shimmer: 0, topperLight: 0, bloom: 0, pulse: 0 });
+
+const PULSE_DECAY = 4; // Per second; a beat pulse fades in about a quarter second
+
+/** Updates `reaction` in place from this frame's features. Beat-driven values decay between beats. */
+export const applyAudioMappings = (reaction: AudioReaction, features: AudioFeatures, mappings: AudioMappings, delta: number) => {
+  for (const target of AUDIO_TARGETS) {
+    const { source, gain } = mappings[target];
+    if (source === 'beat') {
+      const decayed = reaction[target] * Math.exp(-PULSE_DECAY * delta);
+      reaction[target] = features.beat ? Math.max(decayed, gain) : decayed;
+    } else {
+      reaction[target] = features[source] * gain;
+    }
+  }
+};
+
+export const decayAudioReaction = (reaction: AudioReaction, delta: number) => {
+  const k = Math.exp(-PULSE_DECAY * delta);
+  for (const target of AUDIO_TARGETS) reaction[target] *= k;
+};
+
+// --- FEATURE EXTRACTION ---
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 12000],
+} as const;
+
+export const computeBands = (frequencyData: Uint8Array, sampleRate: number) => {
+  const binHz = sampleRate / 2 / frequencyData.length;
+  const band = ([low, high]: readonly [number, number]) => {
+    const start = Math.max(0, Math.floor(low / binHz));
+    const end = Math.min(frequencyData.length, Math.ceil(high / binHz));
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += frequencyData[i];
+    return end > start ? sum / (end - start) / 255 : 0;
+  };
+  return { bass: band(BANDS.bass), mid: band(BANDS.mid), treble: band(BANDS.treble) };
+};
+
+export const computeLoudness = (timeData: Uint8Array) => {
+  let sum = 0;
+  for (let i = 0; i < timeData.length; i++) {
+    const v = (timeData[i] - 128) / 128;
+    sum += v * v;
+  }
+  return Math.min(Math.sqrt(sum / timeData.length) * 3, 1);
+};
+
+export interface BeatDetectorOptions {
+  historyMs: number;   // Window for the running average
+  sensitivity: number; // Energy must exceed average * sensitivity
+  minEnergy: number;
+  minIntervalMs: number;
+}
+
+export const DEFAULT_BEAT_OPTIONS: BeatDetectorOptions = {
+  historyMs: 1000,
+  sensitivity: 1.35,
+  minEnergy: 0.15,
+  minIntervalMs: 250,
+};
+
+/** Energy onset detection on the bass band. Plain TS, feed it (energy, time) pairs. */
+export const createBeatDetector = (overrides: Partial<BeatDetectorOptions> = {}) => {
+  const options = { ...DEFAULT_BEAT_OPTIONS, ...overrides };
+  let history: { time: number; energy: number }[] = [];
+  let lastBeat = -Infinity;
+
+  return (energy: number, time: number): boolean => {
+    history = history.filter(h => h.time >= time - options.historyMs);
+    const average = history.length > 0 ? history.reduce((sum, h) => sum + h.energy, 0) / history.length : energy;
+    history.push({ time, energy });
+
+    const isBeat = energy > options.minEnergy && energy > average * options.sensitivity && time - lastBeat >= options.minIntervalMs;
+    if (isBeat) lastBeat = time;
+    return isBeat;
+  };
+};
+
+// --- ENGINE ---
+export type AudioInputKind = 'microphone' | 'file';
+
+export interface AudioEngine {
+  startMicrophone: () => Promise<void>;
+  startFile: (file: File) => Promise<void>;
+  play: () => Promise<void>;
+  pause: () => void;
+  stop: () => void;
+  isPlaying: () => boolean;
+  getInput: () => AudioInputKind | null;
+  sample: (time: number) => AudioFeatures | null; // null when nothing is playing
+}
+
+export const createAudioEngine = (): AudioEngine => {
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let frequencyData = new Uint8Array(0);
+  let timeData = new Uint8Array(0);
+  let input: AudioInputKind | null = null;
+  let source: AudioNode | null = null;
+  let stream: MediaStream | null = null;
+  let element: HTMLAudioElement | null = null;
+  let playing = false;
+  let detectBeat = createBeatDetector();
+
+  const ensureContext = () => {
+    if (!context) {
+      context = new AudioContext();
+      analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      analyser.smoothingTimeConstant = 0.7;
+      frequencyData = new Uint8Array(analyser.frequencyBinCount);
+      timeData = new Uint8Array(analyser.fftSize);
+    }
+    return { context, analyser: analyser! };
+  };
+
+  const stop = () => {
+    playing = false;
+    source?.disconnect();
+    source = null;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    if (element) {
+      element.pause();
+      URL.revokeObjectURL(element.src);
+      element = null;
+    }
+    input = null;
+    detectBeat = createBeatDetector();
+  };
+
+  const play = async () => {
+    if (!input || !context) return;
+    await context.resume();
+    if (element) await element.play();
+    playing = true;
+  };
+
+  return {
+    startMicrophone: async () => {
+      stop();
+      const { context, analyser } = ensureContext();
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      source = context.createMediaStreamSource(stream);
+      analyser.disconnect(); // Not to the speakers: that would feed back
+      source.connect(analyser);
+      input = 'microphone';
+      await play();
+    },
+    startFile: async (file) => {
+      stop();
+      const { context, analyser } = ensureContext();
+      element = new Audio(URL.createObjectURL(file));
+      element.loop = true;
+      source = context.createMediaElementSource(element);
+      source.connect(analyser);
+      analyser.connect(context.destination);
+      input = 'file';
+      await play();
+    },
+    play,
+    pause: () => {
+      playing = false;
+      element?.pause();
+      if (input === 'microphone') context?.suspend();
+    },
+    stop,
+    isPlaying: () => playing,
+    getInput: () => input,
+    sample: (time) => {
+      if (!playing || !analyser || !context) return null;
+      analyser.getByteFrequencyData(frequencyData);
+      analyser.getByteTimeDomainData(timeData);
+      const bands = computeBands(frequencyData, context.sampleRate);
+      return { ...bands, loudness: computeLoudness(timeData), beat: detectBeat(bands.bass, time) };
+    },
+  };
+};
+
+// --- MAPPING PERSISTENCE ---
+const MAPPINGS_KEY = 'annatree.audioMappings';
+
+export const loadAudioMappings = (): AudioMappings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MAPPINGS_KEY) || '{}');
+    const mappings = { ...DEFAULT_AUDIO_MAPPINGS };
+    for (const target of AUDIO_TARGETS) {
+      const m = saved[target];
+      if (m && AUDIO_FEATURES.includes(m.source) && typeof m.gain === 'number') mappings[target] = { source: m.source, gain: m.gain };
+    }
+    return mappings;
+  } catch (e) {
+    return DEFAULT_AUDIO_MAPPINGS;
+  }
+};
+
+export const saveAudioMappings = (mappings: AudioMappings) => {
+  try {
+    localStorage.setItem(MAPPINGS_KEY, JSON.stringify(mappings));
+  } catch (e) {
+    console.warn("Could not save audio mappings", e);
+  }
+};
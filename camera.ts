@@ -0,0 +1,210 @@
+// --- CAMERA ---
+// Owns the webcam stream: permission, device choice, pause and teardown.
+// The webcam input source (inputSources.ts) reads frames from `video`, and
+// CameraPreview.tsx shows the status and a live preview.
+
+export type CameraStatus = 'off' | 'requesting' | 'denied' | 'unavailable' | 'active' | 'paused';
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface CameraState {
+  status: CameraStatus;
+  error: string | null;
+  devices: CameraDevice[];
+  deviceId: string | null; // The device actually streaming (null = browser default)
+}
+
+export interface Camera {
+  video: HTMLVideoElement;
+  getState: () => CameraState;
+  subscribe: (listener: (state: CameraState) => void) => () => void;
+  start: (deviceId?: string | null) => Promise<void>;
+  stop: () => void;
+  pause: () => void;
+  resume: () => void;
+}
+
+export const CAMERA_SIZE = 128;
+
+// Maps a getUserMedia failure to the status and message the preview shows
+const describeError = (e: unknown): { status: CameraStatus; error: string } => {
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return { status: 'denied', error: 'Camera access was denied. Allow it in the browser to use gestures.' };
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return { status: 'unavailable', error: 'No camera was found.' };
+  }
+  if (name === 'NotReadableError') {
+    return { status: 'unavailable', error: 'The camera is in use by another application.' };
+  }
+  return { status: 'unavailable', error: (e as Error)?.message || 'The camera could not be started.' };
+};
+
+export const createCamera = (): Camera => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+
+  let state: CameraState = { status: 'off', error: null, devices: [], deviceId: null };
+  let stream: MediaStream | null = null;
+  let generation = 0; // Guards against a stop/start while permission is pending
+  let pausedByUser = false;
+  const listeners = new Set<(state: CameraState) => void>();
+
+  const update = (patch: Partial<CameraState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const release = () => {
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    video.pause();
+    video.srcObject = null;
+  };
+
+  // Labels are only filled in once permission has been granted
+  const refreshDevices = async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const all = await navigator.mediaDevices.enumerateDevices().catch(() => []);
+    const devices = all
+      .filter(d => d.kind === 'videoinput')
+      .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }));
+    update({ devices });
+  };
+
+  // A hidden tab pauses the camera; coming back resumes it unless the visitor paused it
+  const handleVisibility = () => {
+    if (document.hidden && state.status === 'active') {
+      video.pause();
+      update({ status: 'paused' });
+    } else if (!document.hidden && state.status === 'paused' && !pausedByUser) {
+      video.play().catch(() => undefined);
+      update({ status: 'active' });
+    }
+  };
+
+  const stop = () => {
+    generation++;
+    release();
+    pausedByUser = false;
+    document.removeEventListener('visibilitychange', handleVisibility);
+    navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+    update({ status: 'off', error: null });
+  };
+
+  const start = async (deviceId: string | null = null) => {
+    const current = ++generation;
+    release();
+    pausedByUser = false;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      update({ status: 'unavailable', error: 'This browser cannot use a camera here (a secure https page is required).' });
+      return;
+    }
+    update({ status: 'requesting', error: null });
+    document.addEventListener('visibilitychange', handleVisibility);
+    navigator.mediaDevices.addEventListener?.('devicechange', refreshDevices);
+
+    try {
+      const s = await navigator.mediaDevices.getUserMedia({
+        video: {
+          width: CAMERA_SIZE,
+          height: CAMERA_SIZE,
+          ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+        },
+      });
+      if (current !== generation) {
+        s.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = s;
+      video.srcObject = s;
+      await video.play().catch(() => undefined);
+      // Stopped (or restarted) while the video was starting: release() has the stream
+      if (current !== generation) {
+        s.getTracks().forEach(track => track.stop());
+        return;
+      }
+      // A camera unplugged mid-session ends its track
+      s.getVideoTracks().forEach(track => {
+        track.onended = () => {
+          if (stream === s) {
+            release();
+            update({ status: 'unavailable', error: 'The camera was disconnected.' });
+          }
+        };
+      });
+      const settings = s.getVideoTracks()[0]?.getSettings();
+      update({ status: document.hidden ? 'paused' : 'active', error: null, deviceId: settings?.deviceId ?? deviceId });
+      if (document.hidden) video.pause();
+      await refreshDevices();
+    } catch (e) {
+      if (current !== generation) return;
+      // A remembered camera that has since been unplugged: use the default one
+      const name = e instanceof DOMException ? e.name : '';
+      if (deviceId && (name === 'OverconstrainedError' || name === 'NotFoundError')) return start(null);
+      console.warn("Camera access denied or unavailable", e);
+      update(describeError(e));
+    }
+  };
+
+  return {
+    video,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    start,
+    stop,
+    pause: () => {
+      if (state.status !== 'active') return;
+      pausedByUser = true;
+      video.pause();
+      update({ status: 'paused' });
+    },
+    resume: () => {
+      if (state.status !== 'paused') return;
+      pausedByUser = false;
+      video.play().catch(() => undefined);
+      update({ status: 'active' });
+    },
+  };
+};
+
+// --- SETTINGS ---
+const CAMERA_KEY = 'annatree.camera';
+
+export interface CameraSettings {
+  enabled: boolean;
+  deviceId: string | null;
+}
+
+/**
+ * The camera is opt-in: it only starts once the visitor has enabled it (remembered
+ * here) or the URL asks for it with ?camera=on. ?camera=off always wins.
+ */
+export const loadCameraSettings = (search: string = window.location.search): CameraSettings => {
+  const param = new URLSearchParams(search).get('camera');
+  let saved: Partial<CameraSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(CAMERA_KEY) || '{}');
+  } catch (e) {
+    // Fall through to the defaults
+  }
+  const deviceId = typeof saved.deviceId === 'string' ? saved.deviceId : null;
+  if (param === 'off') return { enabled: false, deviceId };
+  return { enabled: param === 'on' || saved.enabled === true, deviceId };
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  try {
+    localStorage.setItem(CAMERA_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save the camera setting", e);
+  }
+};
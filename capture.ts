@@ -0,0 +1,119 @@
+import { Theme } from './theme';
+
+// --- CAPTURE HELPERS ---
+// Browser-only plumbing for screenshots, posters and clips. The R3F side
+// (when to grab a frame, fixed-step playback) lives in CaptureController.tsx.
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png') =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The canvas could not be encoded'))), type);
+  });
+
+// Copies the current frame; only valid right after a render, in the same task
+export const copyCanvas = (source: HTMLCanvasElement) => {
+  const copy = document.createElement('canvas');
+  copy.width = source.width;
+  copy.height = source.height;
+  copy.getContext('2d')!.drawImage(source, 0, 0);
+  return copy;
+};
+
+// --- POSTER ---
+export const POSTER_WIDTH = 3840;
+
+/** Paints the theme's title onto a rendered frame, laid out like the UI header. */
+export const composePoster = async (frame: HTMLCanvasElement, theme: Theme, caption?: string) => {
+  const { texts, palette, fonts } = theme;
+  await Promise.all([
+    document.fonts.load(`900 40px "${fonts.accent}"`),
+    document.fonts.load(`700 40px "${fonts.display}"`),
+  ]).catch(() => undefined); // Fall back to whatever is available
+
+  const ctx = frame.getContext('2d')!;
+  const unit = frame.width / 100; // Everything scales with the poster width
+  const left = unit * 5;
+  let y = unit * 6;
+
+  ctx.textBaseline = 'top';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = unit;
+
+  ctx.fillStyle = palette.accent;
+  ctx.font = `900 ${unit * 0.9}px "${fonts.accent}", serif`;
+  ctx.letterSpacing = `${unit * 0.45}px`;
+  ctx.fillText(texts.kicker.toUpperCase(), left, y);
+  y += unit * 2;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `700 ${unit * 6.5}px "${fonts.display}", serif`;
+  ctx.letterSpacing = '0px';
+  ctx.fillText(texts.name, left, y);
+  y += unit * 6.5;
+
+  const gradient = ctx.createLinearGradient(0, y, 0, y + unit * 6.5);
+  gradient.addColorStop(0, palette.accent);
+  gradient.addColorStop(1, palette.accentDeep);
+  ctx.fillStyle = gradient;
+  ctx.font = `900 ${unit * 6}px "${fonts.accent}", serif`;
+  ctx.fillText(texts.title, left, y);
+
+  if (caption) {
+    ctx.fillStyle = palette.accent;
+    ctx.globalAlpha = 0.7;
+    ctx.font = `400 ${unit * 0.8}px "${fonts.accent}", serif`;
+    ctx.letterSpacing = `${unit * 0.3}px`;
+    ctx.textAlign = 'right';
+    ctx.fillText(caption.toUpperCase(), frame.width - left, frame.height - unit * 3);
+    ctx.globalAlpha = 1;
+  }
+  return frame;
+};
+
+// --- CLIPS ---
+// Unleash -> hold -> reform -> settle. Times in seconds.
+export const CLIP_SCRIPT = [
+  { at: 0, unleashed: false },
+  { at: 1, unleashed: true },
+  { at: 5, unleashed: false },
+];
+export const CLIP_DURATION = 11;
+export const CLIP_FPS = 30;
+
+export const clipStateAt = (time: number) =>
+  CLIP_SCRIPT.reduce((state, step) => (time >= step.at ? step.unleashed : state), false);
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const isClipRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Records frames on demand: call `frame()` right after each render. The stream
+ * is created with frame rate 0, so only the frames we push end up in the file.
+ */
+export const createClipRecorder = (canvas: HTMLCanvasElement, fps: number) => {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type))!;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 12_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start();
+
+  return {
+    frameMs: 1000 / fps,
+    frame: () => track.requestFrame(),
+    finish: () => new Promise<Blob>(resolve => {
+      recorder.onstop = () => {
+        track.stop();
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      };
+      recorder.stop();
+    }),
+    // Stop recording and throw the clip away
+    cancel: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      track.stop();
+    },
+  };
+};
@@ -0,0 +1,3 @@
+// --- COLORS ---
+// `#rgb` or `#rrggbb`, the way every config and file format here writes a color
+export const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
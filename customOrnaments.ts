@@ -0,0 +1,111 @@
+import { CustomOrnament, CustomOrnamentShape, TreeConfig, Vector3Array } from './types';
+import { coneRadiusAt } from './treeGenerator';
+import { HEX_COLOR } from './colors';
+
+// --- PERSONAL ORNAMENTS ---
+// Ornaments visitors hang themselves. They live in localStorage and travel as JSON.
+
+export const CUSTOM_ORNAMENT_SHAPES: CustomOrnamentShape[] = ['cat', 'gift', 'star'];
+export const MAX_MESSAGE_LENGTH = 80;
+const MAX_ORNAMENTS = 200;
+const STORAGE_KEY = 'annatree.customOrnaments';
+
+interface CustomOrnamentFile {
+  version: 1;
+  ornaments: CustomOrnament[];
+}
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Snaps a clicked point (tree space) onto the foliage surface and gives it a
+ * chaos pose, so the ornament flies out with the rest and returns to its spot.
+ */
+export const createCustomOrnament = (
+  point: Vector3Array,
+  config: TreeConfig,
+  details: { shape: CustomOrnamentShape; color: string; message: string },
+): CustomOrnament => {
+  const { shape: treeShape, ornaments } = config;
+  const h = Math.min(Math.max(point[1] + treeShape.height / 2, 0), treeShape.height);
+  const theta = Math.atan2(point[2], point[0]);
+  const r = coneRadiusAt(config, h) + ornaments.offset;
+  const spread = ornaments.chaosSpread;
+
+  return {
+    id: createId(),
+    shape: details.shape,
+    color: details.color,
+    message: details.message.slice(0, MAX_MESSAGE_LENGTH),
+    position: {
+      target: [r * Math.cos(theta), h - treeShape.height / 2, r * Math.sin(theta)],
+      chaos: [(Math.random() - 0.5) * spread, (Math.random() - 0.5) * spread, (Math.random() - 0.5) * spread],
+    },
+    createdAt: new Date().toISOString(),
+  };
+};
+
+// --- VALIDATION ---
+const isVector = (value: unknown): value is Vector3Array =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const parseOrnament = (value: unknown, index: number): CustomOrnament => {
+  const o = value as Partial<CustomOrnament> | null;
+  const where = `ornament ${index + 1}`;
+  if (!o || typeof o !== 'object') throw new Error(`${where} is not an object`);
+  if (typeof o.id !== 'string' || o.id.length === 0) throw new Error(`${where} needs an id`);
+  if (!CUSTOM_ORNAMENT_SHAPES.includes(o.shape as CustomOrnamentShape)) {
+    throw new Error(`${where} has unknown shape ${JSON.stringify(o.shape)} (expected ${CUSTOM_ORNAMENT_SHAPES.join(', ')})`);
+  }
+  if (typeof o.color !== 'string' || !HEX_COLOR.test(o.color)) throw new Error(`${where} needs a hex color`);
+  if (typeof o.message !== 'string') throw new Error(`${where} needs a message string`);
+  if (!o.position || !isVector(o.position.target) || !isVector(o.position.chaos)) {
+    throw new Error(`${where} needs position.target and position.chaos as [x, y, z]`);
+  }
+  return {
+    id: o.id,
+    shape: o.shape as CustomOrnamentShape,
+    color: o.color,
+    message: o.message.slice(0, MAX_MESSAGE_LENGTH),
+    position: { target: o.position.target, chaos: o.position.chaos },
+    createdAt: typeof o.createdAt === 'string' ? o.createdAt : new Date().toISOString(),
+  };
+};
+
+/** Accepts an exported file ({ version, ornaments }) or a bare array. Throws with the first problem found. */
+export const parseCustomOrnaments = (json: unknown): CustomOrnament[] => {
+  const list = Array.isArray(json) ? json : (json as CustomOrnamentFile | null)?.ornaments;
+  if (!Array.isArray(list)) throw new Error('Expected an ornament file ({ "version": 1, "ornaments": [...] })');
+  return list.map(parseOrnament);
+};
+
+// Imported ornaments replace stored ones with the same id
+export const mergeCustomOrnaments = (existing: CustomOrnament[], incoming: CustomOrnament[]) => {
+  const byId = new Map(existing.map(o => [o.id, o]));
+  incoming.forEach(o => byId.set(o.id, o));
+  return [...byId.values()].slice(-MAX_ORNAMENTS);
+};
+
+export const toCustomOrnamentFile = (ornaments: CustomOrnament[]): CustomOrnamentFile => ({ version: 1, ornaments });
+
+// --- STORAGE ---
+export const loadCustomOrnaments = (): CustomOrnament[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseCustomOrnaments(JSON.parse(raw)) : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable saved ornaments", e);
+    return [];
+  }
+};
+
+export const saveCustomOrnaments = (ornaments: CustomOrnament[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toCustomOrnamentFile(ornaments)));
+  } catch (e) {
+    console.warn("Could not save ornaments", e);
+  }
+};
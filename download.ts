@@ -0,0 +1,16 @@
+// --- DOWNLOADS ---
+// Saving files from the browser, for captures, recordings and exported presets.
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers only start reading the blob after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadJson = (data: unknown, filename: string) => {
+  downloadBlob(new Blob([JSON.stringify(data)], { type: 'application/json' }), filename);
+};
@@ -0,0 +1,125 @@
+import { GestureEvent, PartialTreeConfig } from './types';
+import { ThemeName, isThemeName } from './theme';
+import { SceneInputs } from './LuxuryTreeScene';
+
+// --- IFRAME EMBED PROTOCOL ---
+// A host page drives an iframe running embed.html with postMessage. Every
+// message carries `annatree: EMBED_PROTOCOL_VERSION`, so anything else posted
+// to the window is ignored. connectTreeEmbed() is the host side of it.
+
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// Host -> tree ('hello' asks the tree to say 'ready' again, for hosts that connect late)
+export type EmbedCommand =
+  | { type: 'hello' }
+  | { type: 'unleash' }
+  | { type: 'reform' }
+  | { type: 'toggle' }
+  | { type: 'setTheme'; theme: ThemeName }
+  | { type: 'setConfig'; config: PartialTreeConfig }
+  | { type: 'setSeed'; seed: number }
+  | { type: 'setInputs'; inputs: SceneInputs };
+
+// Tree -> host
+export type EmbedEvent =
+  | { type: 'ready'; version: number }
+  | { type: 'unleash' }
+  | { type: 'reform' }
+  | { type: 'gesture'; gesture: GestureEvent }
+  | { type: 'error'; message: string }; // A command was rejected
+
+export const toEmbedMessage = <T extends EmbedCommand | EmbedEvent>(message: T) =>
+  ({ annatree: EMBED_PROTOCOL_VERSION, ...message });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOurs = (data: unknown): data is Record<string, unknown> =>
+  isRecord(data) && data.annatree === EMBED_PROTOCOL_VERSION && typeof data.type === 'string';
+
+/** null for messages that aren't ours; throws for ours that are malformed. */
+export const parseEmbedCommand = (data: unknown): EmbedCommand | null => {
+  if (!isOurs(data)) return null;
+  switch (data.type) {
+    case 'hello':
+    case 'unleash':
+    case 'reform':
+    case 'toggle':
+      return { type: data.type };
+    case 'setTheme':
+      if (typeof data.theme !== 'string' || !isThemeName(data.theme)) throw new Error(`Unknown theme ${JSON.stringify(data.theme)}`);
+      return { type: 'setTheme', theme: data.theme };
+    case 'setConfig':
+      // Checked in full by resolveTreeConfig on the tree side
+      if (!isRecord(data.config)) throw new Error('setConfig needs a config object');
+      return { type: 'setConfig', config: data.config as PartialTreeConfig };
+    case 'setSeed':
+      if (typeof data.seed !== 'number' || !Number.isFinite(data.seed)) throw new Error('setSeed needs a numeric seed');
+      return { type: 'setSeed', seed: data.seed >>> 0 };
+    case 'setInputs':
+      if (!isRecord(data.inputs) || !Object.values(data.inputs).every(v => typeof v === 'boolean')) {
+        throw new Error('setInputs needs { pointer?, keyboard?, gamepad?, webcam? } as booleans');
+      }
+      return { type: 'setInputs', inputs: data.inputs as SceneInputs };
+    default:
+      throw new Error(`Unknown command ${JSON.stringify(data.type)}`);
+  }
+};
+
+export const parseEmbedEvent = (data: unknown): EmbedEvent | null =>
+  isOurs(data) ? (data as unknown as EmbedEvent) : null;
+
+// --- HOST SIDE ---
+export interface TreeEmbed {
+  /** Sent once the tree has said it is ready; queued until then. */
+  send: (command: EmbedCommand) => void;
+  subscribe: (listener: (event: EmbedEvent) => void) => () => void;
+  destroy: () => void;
+}
+
+/**
+ * Talks to an iframe showing embed.html. `origin` is the tree's origin: commands
+ * are only posted there, and only its events are listened to.
+ */
+export const connectTreeEmbed = (iframe: HTMLIFrameElement, origin: string): TreeEmbed => {
+  const listeners = new Set<(event: EmbedEvent) => void>();
+  let queue: EmbedCommand[] | null = [];
+
+  const post = (command: EmbedCommand) => iframe.contentWindow?.postMessage(toEmbedMessage(command), origin);
+
+  const handleMessage = (e: MessageEvent) => {
+    if (e.source !== iframe.contentWindow || e.origin !== origin) return;
+    const event = parseEmbedEvent(e.data);
+    if (!event) return;
+    if (event.type === 'ready') {
+      // Both the tree's own 'ready' and the answer to 'hello' may arrive; pass on the first
+      if (!queue) return;
+      const pending = queue;
+      queue = null;
+      pending.forEach(post);
+    }
+    listeners.forEach(listener => listener(event));
+  };
+  window.addEventListener('message', handleMessage);
+
+  // The tree may have loaded (and said 'ready') already, or still be loading
+  const greet = () => { if (queue) post({ type: 'hello' }); };
+  iframe.addEventListener('load', greet);
+  greet();
+
+  return {
+    send: (command) => {
+      if (queue) queue.push(command);
+      else post(command);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    destroy: () => {
+      window.removeEventListener('message', handleMessage);
+      iframe.removeEventListener('load', greet);
+      listeners.clear();
+    },
+  };
+};
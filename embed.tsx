@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import ReactDOM from 'react-dom/client';
+import { LuxuryTreeScene, SceneInputKind, SceneInputs } from './LuxuryTreeScene';
+import { EMBED_PROTOCOL_VERSION, EmbedEvent, parseEmbedCommand, toEmbedMessage } from './embed';
+import { PartialTreeConfig } from './types';
+import { ThemeName, isThemeName } from './theme';
+import { resolveTreeConfig } from './treeConfig';
+import { parseSeed } from './random';
+
+// --- IFRAME ENTRY (embed.html) ---
+//   ?theme=rose&seed=42            starting theme and tree
+//   ?inputs=pointer,keyboard       input sources to enable (pointer only by default)
+//   ?origin=https://host.example   only obey (and only post to) this host page
+
+const INPUT_KINDS: SceneInputKind[] = ['pointer', 'keyboard', 'gamepad', 'webcam'];
+
+const loadEmbedSettings = (search: string = window.location.search) => {
+  const params = new URLSearchParams(search);
+  const theme = params.get('theme') ?? '';
+  const inputs = params.get('inputs');
+  return {
+    theme: isThemeName(theme) ? theme : 'gold' as ThemeName,
+    seed: params.get('seed') ? parseSeed(params.get('seed')!) : 0,
+    inputs: inputs === null ? {} : Object.fromEntries(INPUT_KINDS.map(kind => [kind, inputs.split(',').includes(kind)])) as SceneInputs,
+    origin: params.get('origin') || '*',
+  };
+};
+
+const EmbeddedTree: React.FC = () => {
+  const [settings] = useState(() => loadEmbedSettings());
+  const [theme, setTheme] = useState<ThemeName>(settings.theme);
+  const [seed, setSeed] = useState(settings.seed);
+  const [config, setConfig] = useState<PartialTreeConfig>({});
+  const [inputs, setInputs] = useState<SceneInputs>(settings.inputs);
+  const [unleashed, setUnleashed] = useState(false);
+
+  const post = (event: EmbedEvent) => window.parent.postMessage(toEmbedMessage(event), settings.origin);
+
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || (settings.origin !== '*' && e.origin !== settings.origin)) return;
+      try {
+        const command = parseEmbedCommand(e.data);
+        switch (command?.type) {
+          case 'hello': post({ type: 'ready', version: EMBED_PROTOCOL_VERSION }); return;
+          case 'unleash': setUnleashed(true); return;
+          case 'reform': setUnleashed(false); return;
+          case 'toggle': setUnleashed(u => !u); return;
+          case 'setTheme': setTheme(command.theme); return;
+          case 'setConfig':
+            resolveTreeConfig(command.config); // Throws with the first problem found
+            setConfig(command.config);
+            return;
+          case 'setSeed': setSeed(command.seed); return;
+          case 'setInputs': setInputs(command.inputs); return;
+        }
+      } catch (err) {
+        post({ type: 'error', message: (err as Error).message });
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    post({ type: 'ready', version: EMBED_PROTOCOL_VERSION });
+    return () => window.removeEventListener('message', handleMessage);
+  }, [settings]);
+
+  return (
+    <LuxuryTreeScene
+      theme={theme}
+      seed={seed}
+      config={config}
+      inputs={inputs}
+      unleashed={unleashed}
+      onUnleash={() => { setUnleashed(true); post({ type: 'unleash' }); }}
+      onReform={() => { setUnleashed(false); post({ type: 'reform' }); }}
+      onGesture={gesture => post({ type: 'gesture', gesture })}
+    />
+  );
+};
+
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Could not find root element to mount to");
+}
+
+ReactDOM.createRoot(rootElement).render(<EmbeddedTree />);
@@ -0,0 +1,116 @@
+import { Vector3Array } from './types';
+
+// --- LOCAL FORCE FIELD ---
+// Hands and fingers on the tree push the nearby needles and ornaments away,
+// and let them spring back when they leave. Each point is tracked on its own
+// spring, so several touches can be on the tree at once. Positions are in the
+// tree's local space; the shaders read the packed result via FORCE_FIELD_GLSL.
+
+export const MAX_FORCE_POINTS = 4;
+export const FORCE_RADIUS = 1.6; // How far from the touch the push reaches
+export const FORCE_PUSH = 1.2;   // How far the nearest needles are pushed
+
+// Underdamped, so released needles overshoot a little on the way back
+const SPRING_STIFFNESS = 60;
+const SPRING_DAMPING = 7;
+const REST_EPSILON = 0.001;
+
+interface ForcePoint {
+  id: string;
+  position: Vector3Array;
+  strength: number;
+  velocity: number;
+  held: boolean;
+}
+
+export interface ForceField {
+  push: number; // Distance scale, lowered for reduced motion
+  /** Holds (or moves) a point on the tree; call every frame it is still touching. */
+  press: (id: string, position: Vector3Array) => void;
+  /** Lets every point not pressed since the last step spring back. */
+  step: (delta: number) => void;
+  /** Packs up to MAX_FORCE_POINTS points as xyz + strength. */
+  write: (out: Float32Array) => void;
+  /** The push at a formed position, added to `out`. For CPU-animated parts. */
+  offsetAt: (position: Vector3Array, out: Vector3Array) => Vector3Array;
+  size: () => number;
+}
+
+export const createForceField = (): ForceField => {
+  let points: ForcePoint[] = [];
+  const pressed = new Set<string>();
+
+  const field: ForceField = {
+    push: FORCE_PUSH,
+    press: (id, position) => {
+      pressed.add(id);
+      const point = points.find(p => p.id === id);
+      if (point) {
+        point.position = position;
+        point.held = true;
+      } else if (points.length < MAX_FORCE_POINTS) {
+        points.push({ id, position, strength: 0, velocity: 0, held: true });
+      } else {
+        // Full: the weakest released point makes room
+        const weakest = points.filter(p => !p.held).sort((a, b) => a.strength - b.strength)[0];
+        if (weakest) Object.assign(weakest, { id, position, held: true });
+      }
+    },
+    step: (delta) => {
+      const dt = Math.min(delta, 1 / 30); // Keep the spring stable through frame drops
+      points.forEach(p => {
+        p.held = pressed.has(p.id);
+        const target = p.held ? 1 : 0;
+        p.velocity += (SPRING_STIFFNESS * (target - p.strength) - SPRING_DAMPING * p.velocity) * dt;
+        p.strength += p.velocity * dt;
+      });
+      points = points.filter(p => p.held || Math.abs(p.strength) > REST_EPSILON || Math.abs(p.velocity) > REST_EPSILON);
+      pressed.clear();
+    },
+    write: (out) => {
+      out.fill(0);
+      points.forEach((p, i) => {
+        out.set(p.position, i * 4);
+        out[i * 4 + 3] = p.strength;
+      });
+    },
+    offsetAt: (position, out) => {
+      points.forEach(p => {
+        const dx = position[0] - p.position[0];
+        const dy = position[1] - p.position[1];
+        const dz = position[2] - p.position[2];
+        const distance = Math.hypot(dx, dy, dz) || 1e-4;
+        const push = forceFalloff(distance) * p.strength * field.push;
+        out[0] += (dx / distance) * push;
+        out[1] += (dy / distance) * push;
+        out[2] += (dz / distance) * push;
+      });
+      return out;
+    },
+    size: () => points.length,
+  };
+  return field;
+};
+
+// 1 at the touch, 0 at FORCE_RADIUS (smoothstep, as in the shader)
+const forceFalloff = (distance: number) => {
+  const x = Math.min(Math.max(distance / FORCE_RADIUS, 0), 1);
+  return 1 - x * x * (3 - 2 * x);
+};
+
+// Shared by the foliage and ornament shaders. uForce[i] = xyz + strength.
+export const FORCE_FIELD_GLSL = `
+  uniform vec4 uForce[${MAX_FORCE_POINTS}];
+  uniform float uForcePush;
+
+  vec3 forceOffset(vec3 p) {
+    vec3 offset = vec3(0.0);
+    for (int i = 0; i < ${MAX_FORCE_POINTS}; i++) {
+      vec3 d = p - uForce[i].xyz;
+      float dist = max(length(d), 1e-4);
+      float falloff = 1.0 - smoothstep(0.0, ${FORCE_RADIUS.toFixed(2)}, dist);
+      offset += d / dist * falloff * uForce[i].w * uForcePush;
+    }
+    return offset;
+  }
+`;
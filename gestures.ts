@@ -0,0 +1,212 @@
+import { GestureEvent, GestureState, MotionFrame, SwipeDirection } from './types';
+
+// --- GESTURE RECOGNITION ---
+// Framework-free state machine over per-frame motion data. Feed it MotionFrames
+// (from the webcam, a recording, or a synthetic test sequence) and it returns the
+// events recognized on that frame. Coordinates are screen space: x right, y down.
+
+export interface GestureOptions {
+  trackThreshold: number;     // Energy that counts as "a hand is moving"
+  unleashThreshold: number;   // Energy needed to unleash...
+  releaseThreshold: number;   // ...and to fall below before it reforms (hysteresis)
+  unleashDebounceMs: number;  // Energy must stay above unleashThreshold this long
+  releaseDebounceMs: number;  // Energy must stay below releaseThreshold this long
+  idleMs: number;             // Quiet time before tracking drops back to idle
+
+  swipeWindowMs: number;      // A swipe must complete within this window
+  swipeDistance: number;      // Minimum centroid travel (in -1..1 units)
+  swipeAxisRatio: number;     // Travel along the main axis vs the other one
+
+  pushWindowMs: number;       // Energy has to jump within this window...
+  pushEnergy: number;         // ...from below trackThreshold to above this
+  pushMaxTravel: number;      // ...with the centroid staying roughly in place
+
+  waveWindowMs: number;
+  waveAmplitude: number;      // Minimum travel between direction reversals
+  waveReversals: number;
+
+  holdMs: number;             // Small jitter with a steady centroid for this long = hold
+  holdMinEnergy: number;
+  holdMaxTravel: number;
+
+  cooldownMs: number;         // Debounce between discrete gesture events
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureOptions = {
+  trackThreshold: 0.15,
+  unleashThreshold: 0.35,
+  releaseThreshold: 0.1,
+  unleashDebounceMs: 80,
+  releaseDebounceMs: 300,
+  idleMs: 500,
+
+  swipeWindowMs: 450,
+  swipeDistance: 0.7,
+  swipeAxisRatio: 2,
+
+  pushWindowMs: 250,
+  pushEnergy: 0.6,
+  pushMaxTravel: 0.25,
+
+  waveWindowMs: 1500,
+  waveAmplitude: 0.2,
+  waveReversals: 3,
+
+  holdMs: 1000,
+  holdMinEnergy: 0.01,
+  holdMaxTravel: 0.1,
+
+  cooldownMs: 600,
+};
+
+export interface GestureRecognizer {
+  update: (frame: MotionFrame) => GestureEvent[];
+  getState: () => GestureState;
+  reset: () => void;
+}
+
+export const createGestureRecognizer = (overrides: Partial<GestureOptions> = {}): GestureRecognizer => {
+  const options = { ...DEFAULT_GESTURE_OPTIONS, ...overrides };
+  const longestWindow = Math.max(options.swipeWindowMs, options.pushWindowMs, options.waveWindowMs, options.holdMs);
+
+  let state: GestureState = 'IDLE';
+  let history: MotionFrame[] = [];
+  let aboveUnleashSince: number | null = null;
+  let belowReleaseSince: number | null = null;
+  let lastActiveTime = -Infinity;
+  let lastEventTime = -Infinity;
+  let holdFired = false;
+
+  const reset = () => {
+    state = 'IDLE';
+    history = [];
+    aboveUnleashSince = null;
+    belowReleaseSince = null;
+    lastActiveTime = -Infinity;
+    lastEventTime = -Infinity;
+    holdFired = false;
+  };
+
+  const framesSince = (time: number) => history.filter(f => f.time >= time);
+
+  const detectSwipe = (now: number): SwipeDirection | null => {
+    const moving = framesSince(now - options.swipeWindowMs).filter(f => f.energy >= options.trackThreshold);
+    if (moving.length < 3) return null;
+    const first = moving[0];
+    const last = moving[moving.length - 1];
+    const dx = last.cx - first.cx;
+    const dy = last.cy - first.cy;
+    if (Math.abs(dx) >= options.swipeDistance && Math.abs(dx) >= Math.abs(dy) * options.swipeAxisRatio) {
+      return dx > 0 ? 'right' : 'left';
+    }
+    if (Math.abs(dy) >= options.swipeDistance && Math.abs(dy) >= Math.abs(dx) * options.swipeAxisRatio) {
+      return dy > 0 ? 'down' : 'up';
+    }
+    return null;
+  };
+
+  const detectPush = (now: number) => {
+    const recent = framesSince(now - options.pushWindowMs);
+    if (recent.length < 2) return false;
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const travel = Math.hypot(last.cx - first.cx, last.cy - first.cy);
+    return first.energy < options.trackThreshold && last.energy >= options.pushEnergy && travel <= options.pushMaxTravel;
+  };
+
+  const detectWave = (now: number) => {
+    const moving = framesSince(now - options.waveWindowMs).filter(f => f.energy >= options.trackThreshold);
+    if (moving.length < 4) return false;
+    let reversals = 0;
+    let direction = 0;
+    let extreme = moving[0].cx;
+    for (const frame of moving) {
+      const delta = frame.cx - extreme;
+      if (direction === 0) {
+        if (Math.abs(delta) >= options.waveAmplitude) {
+          direction = Math.sign(delta);
+          extreme = frame.cx;
+        }
+      } else if (Math.sign(delta) === direction) {
+        extreme = frame.cx; // Still travelling the same way
+      } else if (Math.abs(delta) >= options.waveAmplitude) {
+        // Travelled far enough back the other way: that's a reversal
+        reversals++;
+        direction = -direction;
+        extreme = frame.cx;
+      }
+    }
+    return reversals >= options.waveReversals;
+  };
+
+  const detectHold = (now: number) => {
+    const recent = framesSince(now - options.holdMs);
+    if (recent.length < 2 || now - recent[0].time < options.holdMs * 0.9) return false;
+    if (!recent.every(f => f.energy >= options.holdMinEnergy && f.energy < options.trackThreshold)) return false;
+    const xs = recent.map(f => f.cx);
+    const ys = recent.map(f => f.cy);
+    const travel = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    return travel <= options.holdMaxTravel;
+  };
+
+  const update = (frame: MotionFrame): GestureEvent[] => {
+    const now = frame.time;
+    const events: GestureEvent[] = [];
+    history.push(frame);
+    history = framesSince(now - longestWindow);
+
+    const setState = (next: GestureState) => {
+      if (next === state) return;
+      events.push({ type: 'state', state: next, previous: state, time: now });
+      state = next;
+    };
+
+    // --- Energy-driven states (with hysteresis) ---
+    if (frame.energy >= options.trackThreshold) lastActiveTime = now;
+
+    aboveUnleashSince = frame.energy >= options.unleashThreshold ? (aboveUnleashSince ?? now) : null;
+    belowReleaseSince = frame.energy < options.releaseThreshold ? (belowReleaseSince ?? now) : null;
+
+    if (state === 'UNLEASHED') {
+      if (belowReleaseSince !== null && now - belowReleaseSince >= options.releaseDebounceMs) {
+        setState(now - lastActiveTime >= options.idleMs ? 'IDLE' : 'TRACKING');
+      }
+    } else if (aboveUnleashSince !== null && now - aboveUnleashSince >= options.unleashDebounceMs) {
+      setState('UNLEASHED');
+    } else if (frame.energy >= options.trackThreshold) {
+      setState('TRACKING');
+      holdFired = false;
+    } else if (state !== 'IDLE' && now - lastActiveTime >= options.idleMs && frame.energy < options.holdMinEnergy) {
+      setState('IDLE');
+      holdFired = false;
+    }
+
+    // --- Discrete gestures (debounced) ---
+    if (now - lastEventTime >= options.cooldownMs) {
+      let gesture: GestureEvent | null = null;
+      const swipe = detectSwipe(now);
+      if (detectWave(now)) {
+        gesture = { type: 'wave', time: now };
+      } else if (swipe) {
+        gesture = { type: 'swipe', direction: swipe, time: now };
+      } else if (detectPush(now)) {
+        gesture = { type: 'push', time: now };
+      } else if (!holdFired && state !== 'UNLEASHED' && detectHold(now)) {
+        gesture = { type: 'hold', time: now };
+        holdFired = true;
+        setState('HOLDING');
+      }
+
+      if (gesture) {
+        events.push(gesture);
+        lastEventTime = now;
+        // A gesture consumes its motion, so one swipe isn't reported twice
+        if (gesture.type !== 'hold') history = [frame];
+      }
+    }
+
+    return events;
+  };
+
+  return { update, getState: () => state, reset };
+};
@@ -0,0 +1,546 @@
+import { InputCommand, InputEvent, InputFrame, InputSourceKind, MotionFrame, RecordedSession, TouchPoint } from './types';
+import { GestureRecognizer, createGestureRecognizer, DEFAULT_GESTURE_OPTIONS } from './gestures';
+import { Camera } from './camera';
+
+// --- INPUT SOURCES ---
+// Webcam, pointer, keyboard, gamepad and recorded sessions all emit the same
+// InputFrame shape into one hub. The scene only ever listens to the hub.
+
+export interface InputSource {
+  kind: InputSourceKind;
+  start: (emit: (frame: InputFrame) => void) => void;
+  stop: () => void;
+  tick?: (time: number) => void; // Called once per rendered frame
+}
+
+const command = (name: InputCommand, time: number): InputEvent => ({ type: 'command', command: name, time });
+
+// Motion counts as a usable hand position above this energy
+const ACTIVE_ENERGY = DEFAULT_GESTURE_OPTIONS.trackThreshold;
+
+const motionToInput = (source: InputSourceKind, frame: MotionFrame, recognizer: GestureRecognizer, time = frame.time): InputFrame => {
+  const active = frame.energy > ACTIVE_ENERGY;
+  return {
+    source,
+    time,
+    energy: frame.energy,
+    cx: frame.cx,
+    cy: frame.cy,
+    active,
+    events: recognizer.update(frame),
+    // The moving hand presses on the tree where it is
+    touches: active ? [{ id: source, cx: frame.cx, cy: frame.cy }] : [],
+  };
+};
+
+// --- WEBCAM MOTION ---
+const MOTION_SIZE = 64; // Low res for performance
+
+/**
+ * Simple Motion Detection: difference from the last frame. Returns energy (0 to 1)
+ * and the motion centroid in camera space (-1 to 1, not mirrored). If given, `heat`
+ * (one byte per pixel) is filled with how strongly each pixel changed.
+ */
+export const analyzeMotion = (data: Uint8ClampedArray, last: Uint8ClampedArray | null, size = MOTION_SIZE, heat?: Uint8ClampedArray) => {
+  let diffScore = 0;
+  let sumX = 0;
+  let sumY = 0;
+  heat?.fill(0);
+
+  if (last) {
+    for (let i = 0; i < data.length; i += 4) {
+      const rDiff = Math.abs(data[i] - last[i]);
+      const gDiff = Math.abs(data[i + 1] - last[i + 1]);
+      const bDiff = Math.abs(data[i + 2] - last[i + 2]);
+
+      if (rDiff + gDiff + bDiff > 50) { // Threshold
+        diffScore++;
+        // Calculate Centroid of motion
+        const pixelIdx = i / 4;
+        sumX += pixelIdx % size;
+        sumY += Math.floor(pixelIdx / size);
+        if (heat) heat[pixelIdx] = rDiff + gDiff + bDiff; // Clamps at 255
+      }
+    }
+  }
+
+  const half = size / 2;
+  return {
+    energy: Math.min(diffScore / 500, 1),
+    cx: diffScore > 0 ? (sumX / diffScore / half) - 1 : 0,
+    cy: diffScore > 0 ? (sumY / diffScore / half) - 1 : 0,
+  };
+};
+
+// What the preview overlays: per-pixel motion (camera space) and the latest frame
+export interface MotionView {
+  size: number;
+  heat: Uint8ClampedArray;
+  frame: MotionFrame | null;
+}
+
+export const createMotionView = (): MotionView => ({
+  size: MOTION_SIZE,
+  heat: new Uint8ClampedArray(MOTION_SIZE * MOTION_SIZE),
+  frame: null,
+});
+
+interface WebcamSourceOptions {
+  onMotion?: (frame: MotionFrame) => void; // Raw frames, e.g. for recording
+  view?: MotionView;                       // Filled in every analyzed frame
+}
+
+/** Motion input from a camera (camera.ts) that someone else starts and stops. */
+export const createWebcamSource = (camera: Camera, { onMotion, view }: WebcamSourceOptions = {}): InputSource => {
+  const canvas = document.createElement('canvas');
+  canvas.width = MOTION_SIZE;
+  canvas.height = MOTION_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  const recognizer = createGestureRecognizer();
+  let lastFrameData: Uint8ClampedArray | null = null;
+  let emit: ((frame: InputFrame) => void) | null = null;
+
+  return {
+    kind: 'webcam',
+    start: (onFrame) => { emit = onFrame; },
+    stop: () => {
+      emit = null;
+      lastFrameData = null;
+    },
+    tick: (time) => {
+      const { video } = camera;
+      if (camera.getState().status !== 'active') {
+        lastFrameData = null; // Don't read the gap as one big movement
+        return;
+      }
+      if (!emit || !ctx || video.readyState !== video.HAVE_ENOUGH_DATA) return;
+
+      // Draw video to small canvas for processing
+      ctx.drawImage(video, 0, 0, MOTION_SIZE, MOTION_SIZE);
+      const data = ctx.getImageData(0, 0, MOTION_SIZE, MOTION_SIZE).data;
+
+      const motion = analyzeMotion(data, lastFrameData, MOTION_SIZE, view?.heat);
+      // Copy current to last
+      lastFrameData = new Uint8ClampedArray(data);
+
+      const frame: MotionFrame = { time, energy: motion.energy, cx: -motion.cx, cy: motion.cy }; // Mirror x
+      if (view) view.frame = frame;
+      onMotion?.(frame);
+      emit(motionToInput('webcam', frame, recognizer));
+    },
+  };
+};
+
+// --- POINTER (mouse / touch) ---
+// Ignores presses on controls layered over the canvas, and on scene objects
+// that handle the press themselves (they claim it before it bubbles up here)
+const isControl = (target: EventTarget | null) =>
+  target instanceof Element && target.closest('button, input, select, label, a, [data-input-ignore]') !== null;
+
+const claimedEvents = new WeakSet<Event>();
+
+/** Keeps a press on a clickable scene object from also scattering the tree. */
+export const claimPointerEvent = (e: Event) => { claimedEvents.add(e); };
+
+// A press scatters the tree locally under each finger. Holding one still
+// for HOLD_MS unleashes the whole tree until it is released.
+const HOLD_MS = 600;
+const HOLD_SLOP = 0.04; // Screen units a held pointer may drift
+
+export const createPointerSource = (element: HTMLElement): InputSource => {
+  let emit: ((frame: InputFrame) => void) | null = null;
+  const pressed = new Map<number, { cx: number; cy: number; startX: number; startY: number; timer: ReturnType<typeof setTimeout> }>();
+  let unleashedBy: number | null = null;
+
+  // Map the element (the whole screen for the app, a box when embedded) to -1 to 1
+  const toScreen = (e: PointerEvent) => {
+    const rect = element.getBoundingClientRect();
+    return {
+      cx: ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      cy: ((e.clientY - rect.top) / rect.height) * 2 - 1,
+    };
+  };
+
+  const frameAt = ({ cx, cy }: { cx: number; cy: number }, energy: number, events: InputEvent[]): InputFrame => ({
+    source: 'pointer',
+    time: performance.now(),
+    energy,
+    cx,
+    cy,
+    active: true,
+    events,
+    touches: [...pressed].map(([id, p]) => ({ id: `pointer-${id}`, cx: p.cx, cy: p.cy })),
+  });
+
+  const handleDown = (e: PointerEvent) => {
+    if (isControl(e.target) || claimedEvents.has(e)) return;
+    // Keep the press when the pointer leaves the window; capturing on the target
+    // rather than the element leaves the canvas's own click handling intact
+    if (e.target instanceof Element) e.target.setPointerCapture(e.pointerId);
+    const at = toScreen(e);
+    const timer = setTimeout(() => {
+      const press = pressed.get(e.pointerId);
+      if (!press || unleashedBy !== null) return;
+      unleashedBy = e.pointerId;
+      emit?.(frameAt(press, 1, [command('unleash', performance.now())]));
+    }, HOLD_MS);
+    pressed.set(e.pointerId, { ...at, startX: at.cx, startY: at.cy, timer });
+    emit?.(frameAt(at, 1, []));
+  };
+  const handleUp = (e: PointerEvent) => {
+    const press = pressed.get(e.pointerId);
+    if (!press) return;
+    clearTimeout(press.timer);
+    pressed.delete(e.pointerId);
+    const events: InputEvent[] = [];
+    if (unleashedBy === e.pointerId) {
+      unleashedBy = null;
+      events.push(command('reform', performance.now()));
+    }
+    emit?.(frameAt(toScreen(e), 0, events));
+  };
+  const handleMove = (e: PointerEvent) => {
+    const at = toScreen(e);
+    const press = pressed.get(e.pointerId);
+    if (press) {
+      Object.assign(press, at);
+      // Dragging across the tree is a local scatter, not a hold
+      if (Math.hypot(at.cx - press.startX, at.cy - press.startY) > HOLD_SLOP) clearTimeout(press.timer);
+    }
+    emit?.(frameAt(at, e.buttons ? 1 : 0, []));
+  };
+
+  return {
+    kind: 'pointer',
+    start: (onFrame) => {
+      emit = onFrame;
+      element.addEventListener('pointerdown', handleDown);
+      element.addEventListener('pointerup', handleUp);
+      element.addEventListener('pointercancel', handleUp);
+      element.addEventListener('lostpointercapture', handleUp);
+      element.addEventListener('pointermove', handleMove);
+    },
+    stop: () => {
+      emit = null;
+      pressed.forEach(p => clearTimeout(p.timer));
+      pressed.clear();
+      unleashedBy = null;
+      element.removeEventListener('pointerdown', handleDown);
+      element.removeEventListener('pointerup', handleUp);
+      element.removeEventListener('pointercancel', handleUp);
+      element.removeEventListener('lostpointercapture', handleUp);
+      element.removeEventListener('pointermove', handleMove);
+    },
+  };
+};
+
+// --- KEYBOARD ---
+export const KEY_COMMANDS: Record<string, InputCommand> = {
+  ' ': 'toggle',
+  Enter: 'toggle',
+  ArrowLeft: 'rotateLeft',
+  ArrowRight: 'rotateRight',
+  ArrowUp: 'launchTopper',
+  ArrowDown: 'resetView',
+  Escape: 'reform',
+  r: 'resetView',
+  m: 'nextMorph',
+};
+
+export const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const createKeyboardSource = (target: Window = window): InputSource => {
+  let emit: ((frame: InputFrame) => void) | null = null;
+
+  const handleKey = (e: KeyboardEvent) => {
+    if (e.repeat || e.metaKey || e.ctrlKey || e.altKey || isTextField(e.target)) return;
+    // Let Space/Enter keep activating focused buttons
+    if (isControl(e.target) && (e.key === ' ' || e.key === 'Enter')) return;
+    const name = KEY_COMMANDS[e.key];
+    if (!name || !emit) return;
+    e.preventDefault();
+    const time = performance.now();
+    emit({ source: 'keyboard', time, energy: 0, cx: 0, cy: 0, active: false, events: [command(name, time)] });
+  };
+
+  return {
+    kind: 'keyboard',
+    start: (onFrame) => {
+      emit = onFrame;
+      target.addEventListener('keydown', handleKey);
+    },
+    stop: () => {
+      emit = null;
+      target.removeEventListener('keydown', handleKey);
+    },
+  };
+};
+
+// --- GAMEPAD ---
+// Standard mapping: left stick moves, A holds unleash, LB/RB spin, Y launches, X morphs, B resets
+const GAMEPAD_BUTTONS: Record<number, InputCommand> = {
+  1: 'resetView',
+  2: 'nextMorph',
+  3: 'launchTopper',
+  4: 'rotateLeft',
+  5: 'rotateRight',
+};
+const STICK_DEADZONE = 0.15;
+
+export const createGamepadSource = (): InputSource => {
+  let emit: ((frame: InputFrame) => void) | null = null;
+  let previous: boolean[] = [];
+
+  return {
+    kind: 'gamepad',
+    start: (onFrame) => { emit = onFrame; },
+    stop: () => {
+      emit = null;
+      previous = [];
+    },
+    tick: (time) => {
+      if (!emit || !navigator.getGamepads) return;
+      const pad = navigator.getGamepads().find(p => p && p.connected);
+      if (!pad) return;
+
+      const pressed = pad.buttons.map(b => b.pressed);
+      const events: InputEvent[] = [];
+      if (pressed[0] && !previous[0]) events.push(command('unleash', time));
+      if (!pressed[0] && previous[0]) events.push(command('reform', time));
+      for (const [index, name] of Object.entries(GAMEPAD_BUTTONS)) {
+        const i = Number(index);
+        if (pressed[i] && !previous[i]) events.push(command(name, time));
+      }
+      previous = pressed;
+
+      const cx = pad.axes[0] ?? 0;
+      const cy = pad.axes[1] ?? 0;
+      const active = Math.hypot(cx, cy) > STICK_DEADZONE;
+      if (active || events.length > 0) {
+        emit({ source: 'gamepad', time, energy: pad.buttons[0]?.value ?? 0, cx, cy, active, events });
+      }
+    },
+  };
+};
+
+// --- RECORDED SESSIONS ---
+export const createSessionRecorder = () => {
+  let frames: MotionFrame[] = [];
+  let startTime: number | null = null;
+
+  return {
+    add: (frame: MotionFrame) => {
+      startTime ??= frame.time;
+      frames.push({ ...frame, time: frame.time - startTime });
+    },
+    finish: (): RecordedSession => {
+      const session: RecordedSession = { version: 1, recordedAt: new Date().toISOString(), frames };
+      frames = [];
+      startTime = null;
+      return session;
+    },
+  };
+};
+
+export const parseRecordedSession = (json: unknown): RecordedSession => {
+  const session = json as RecordedSession;
+  if (!session || session.version !== 1 || !Array.isArray(session.frames)) {
+    throw new Error('Not a recorded session (expected { version: 1, frames: [...] })');
+  }
+  session.frames.forEach((f, i) => {
+    if ([f.time, f.energy, f.cx, f.cy].some(v => typeof v !== 'number')) {
+      throw new Error(`Recorded session frame ${i} needs numeric time, energy, cx and cy`);
+    }
+  });
+  return session;
+};
+
+export const fetchRecordedSession = async (url: string, signal?: AbortSignal): Promise<RecordedSession> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Could not load recorded session from ${url} (${response.status} ${response.statusText})`);
+  return parseRecordedSession(await response.json());
+};
+
+/** The exact InputFrames a session produces on replay. Same session in, same frames out. */
+export const replaySession = (session: RecordedSession): InputFrame[] => {
+  const recognizer = createGestureRecognizer();
+  return session.frames.map(frame => motionToInput('replay', frame, recognizer));
+};
+
+export const createReplaySource = (session: RecordedSession, { loop = false, onEnd }: { loop?: boolean, onEnd?: () => void } = {}): InputSource => {
+  let emit: ((frame: InputFrame) => void) | null = null;
+  let startTime: number | null = null;
+  let cursor = 0;
+  let recognizer = createGestureRecognizer();
+
+  return {
+    kind: 'replay',
+    start: (onFrame) => {
+      emit = onFrame;
+      startTime = null;
+      cursor = 0;
+    },
+    stop: () => { emit = null; },
+    tick: (time) => {
+      if (!emit) return;
+      startTime ??= time;
+      // Frames are replayed in order on their recorded timeline; the recognizer
+      // sees the recorded timestamps, so gestures come out identical every run
+      while (cursor < session.frames.length && session.frames[cursor].time <= time - startTime) {
+        const frame = session.frames[cursor++];
+        emit(motionToInput('replay', frame, recognizer, startTime + frame.time));
+      }
+      if (cursor >= session.frames.length) {
+        if (loop) {
+          startTime = time;
+          cursor = 0;
+          recognizer = createGestureRecognizer();
+        } else {
+          emit = null;
+          onEnd?.();
+        }
+      }
+    },
+  };
+};
+
+// --- HUB ---
+// Sources that reported a position recently keep it against lower-priority ones,
+// so a resting mouse doesn't fight a waving hand (or a replay).
+const POSITION_PRIORITY: Record<InputSourceKind, number> = {
+  replay: 3,
+  webcam: 2,
+  gamepad: 2,
+  pointer: 1,
+  keyboard: 0,
+};
+const POSITION_CLAIM_MS = 500;
+
+// Camera-like sources report every frame, so a touch they stop reporting has ended.
+// Pointers only report changes, and a finger resting on the tree stays pressed.
+const TOUCH_TIMEOUT_MS = 250;
+
+export interface InputHub {
+  add: (source: InputSource) => () => void;
+  tick: (time: number) => void;
+  subscribe: (listener: (frame: InputFrame) => void) => () => void;
+  /** Every point pressing on the tree, across sources. */
+  touches: (time: number) => TouchPoint[];
+}
+
+export const createInputHub = (): InputHub => {
+  const sources = new Set<InputSource>();
+  const listeners = new Set<(frame: InputFrame) => void>();
+  let owner: InputSourceKind | null = null;
+  let ownerTime = -Infinity;
+  const touches = new Map<InputSourceKind, { points: TouchPoint[]; time: number }>();
+
+  const emit = (frame: InputFrame) => {
+    // A running replay stands in for the live camera
+    if (frame.source === 'webcam' && [...sources].some(s => s.kind === 'replay')) return;
+    if (frame.touches) touches.set(frame.source, { points: frame.touches, time: frame.time });
+
+    let out = frame;
+    if (frame.active) {
+      const claimExpired = frame.time - ownerTime > POSITION_CLAIM_MS;
+      if (owner === null || claimExpired || POSITION_PRIORITY[frame.source] >= POSITION_PRIORITY[owner]) {
+        owner = frame.source;
+        ownerTime = frame.time;
+      } else {
+        out = { ...frame, active: false };
+      }
+    }
+    listeners.forEach(listener => listener(out));
+  };
+
+  return {
+    add: (source) => {
+      sources.add(source);
+      source.start(emit);
+      return () => {
+        source.stop();
+        sources.delete(source);
+        touches.delete(source.kind);
+      };
+    },
+    tick: (time) => sources.forEach(source => source.tick?.(time)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    touches: (time) => [...touches].flatMap(([kind, t]) =>
+      kind === 'pointer' || time - t.time < TOUCH_TIMEOUT_MS ? t.points : []),
+  };
+};
+
+// --- SCENE ACTIONS ---
+// What each event does to a scene; Experience and LuxuryTreeScene both hand
+// their own state setters in.
+
+export interface InputActions {
+  setUnleashed: (unleashed: boolean) => void;
+  toggleUnleashed: () => void;
+  rotate: (by: number) => void; // Radians
+  resetRotation: () => void;    // Swipe down
+  resetView: () => void;        // The resetView command
+  launchTopper: () => void;
+  nextMorph: () => void;
+}
+
+const ROTATE_STEP = Math.PI / 3;
+
+// Commands that unleash or reform the tree outright
+const STATE_COMMANDS: InputCommand[] = ['unleash', 'reform', 'toggle'];
+
+export const createInputActionMapper = () => {
+  // A wave unleashes without the recognizer entering UNLEASHED, so it is
+  // reformed once the recognizer settles back to IDLE instead
+  let waveUnleashed = false;
+
+  return (event: InputEvent, actions: InputActions) => {
+    // Anything else that unleashes or reforms takes over from the wave
+    if (event.type === 'hold' || (event.type === 'state' && event.state === 'UNLEASHED') || (event.type === 'command' && STATE_COMMANDS.includes(event.command))) {
+      waveUnleashed = false;
+    }
+    switch (event.type) {
+      case 'state':
+        // Energy hysteresis: high = Unleash (Open hand/Waving), low = Tree
+        if (event.state === 'UNLEASHED') actions.setUnleashed(true);
+        else if (event.previous === 'UNLEASHED') actions.setUnleashed(false);
+        else if (event.state === 'IDLE' && waveUnleashed) {
+          waveUnleashed = false;
+          actions.setUnleashed(false);
+        }
+        return;
+      case 'swipe':
+        if (event.direction === 'left') actions.rotate(-ROTATE_STEP);
+        if (event.direction === 'right') actions.rotate(ROTATE_STEP);
+        if (event.direction === 'up') actions.launchTopper();
+        if (event.direction === 'down') actions.resetRotation();
+        return;
+      case 'push':
+        // Push: fly into the next formation
+        actions.nextMorph();
+        return;
+      case 'wave':
+        actions.setUnleashed(true);
+        waveUnleashed = true;
+        return;
+      case 'hold':
+        actions.setUnleashed(false);
+        return;
+      case 'command':
+        switch (event.command) {
+          case 'unleash': actions.setUnleashed(true); return;
+          case 'reform': actions.setUnleashed(false); return;
+          case 'toggle': actions.toggleUnleashed(); return;
+          case 'rotateLeft': actions.rotate(-ROTATE_STEP); return;
+          case 'rotateRight': actions.rotate(ROTATE_STEP); return;
+          case 'launchTopper': actions.launchTopper(); return;
+          case 'resetView': actions.resetView(); return;
+          case 'nextMorph': actions.nextMorph(); return;
+        }
+    }
+  };
+};
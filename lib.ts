@@ -0,0 +1,13 @@
+// --- LIBRARY ENTRY ---
+// What `npm run build:lib` publishes: the embeddable scene, the iframe
+// protocol's host side, and the types they take. React, three and the R3F
+// packages are peer dependencies, left for the host's bundler.
+
+export { LuxuryTreeScene, DEFAULT_SCENE_INPUTS } from './LuxuryTreeScene';
+export type { LuxuryTreeSceneProps, SceneInputKind, SceneInputs } from './LuxuryTreeScene';
+export { EMBED_PROTOCOL_VERSION, connectTreeEmbed, parseEmbedEvent, toEmbedMessage } from './embed';
+export type { EmbedCommand, EmbedEvent, TreeEmbed } from './embed';
+export { THEME_NAMES } from './theme';
+export type { ThemeName } from './theme';
+export { DEFAULT_TREE_CONFIG, TREE_PRESETS } from './treeConfig';
+export type { GestureEvent, GestureState, PartialTreeConfig, SwipeDirection, TreeConfig } from './types';
@@ -0,0 +1,168 @@
+import { Color } from 'three';
+import { HEX_COLOR } from './colors';
+
+// --- STRING-LIGHT PATTERNS ---
+// Pure pattern engine: (bulb, time) in, linear RGB out. Values above 1 are
+// intentional, they push the bulbs past the bloom threshold.
+
+export type LightPatternName = 'steady' | 'chase' | 'twinkle' | 'colorWheel' | 'breathing';
+
+export const LIGHT_PATTERNS: LightPatternName[] = ['steady', 'chase', 'twinkle', 'colorWheel', 'breathing'];
+
+export const isLightPatternName = (value: string): value is LightPatternName =>
+  (LIGHT_PATTERNS as string[]).includes(value);
+
+// --- CUSTOM SEQUENCES ---
+export interface LightKeyframe {
+  time: number;      // Seconds from the start of the loop
+  color: string;     // Hex color
+  intensity: number; // 0 = off, 1 = plain, 2+ = blooming
+}
+
+export interface LightSequence {
+  version: 1;
+  name: string;
+  duration: number; // Loop length in seconds
+  spread: number;   // 0..1: how far the loop is offset from the bottom to the top of a strand (0 = all in sync)
+  keyframes: LightKeyframe[];
+}
+
+/** A built-in pattern or a keyframed sequence. */
+export type LightProgram = LightPatternName | LightSequence;
+
+export const lightProgramLabel = (program: LightProgram) => (typeof program === 'string' ? program : program.name);
+
+/** Validates a sequence file. Throws with the first problem found. */
+export const parseLightSequence = (json: unknown): LightSequence => {
+  const s = json as Partial<LightSequence> | null;
+  if (!s || typeof s !== 'object') throw new Error('Expected a light sequence ({ "duration": 4, "keyframes": [...] })');
+  if (typeof s.duration !== 'number' || !(s.duration > 0)) throw new Error('duration must be a positive number of seconds');
+  const spread = s.spread ?? 0;
+  if (typeof spread !== 'number' || spread < 0 || spread > 1) throw new Error('spread must be between 0 and 1');
+  if (!Array.isArray(s.keyframes) || s.keyframes.length === 0) throw new Error('keyframes must be a non-empty array');
+
+  const keyframes = s.keyframes.map((k, i) => {
+    const where = `keyframe ${i + 1}`;
+    if (!k || typeof k !== 'object') throw new Error(`${where} is not an object`);
+    if (typeof k.time !== 'number' || k.time < 0 || k.time > s.duration!) throw new Error(`${where} needs a time between 0 and ${s.duration}`);
+    if (typeof k.color !== 'string' || !HEX_COLOR.test(k.color)) throw new Error(`${where} needs a hex color`);
+    const intensity = k.intensity ?? 1;
+    if (typeof intensity !== 'number' || intensity < 0) throw new Error(`${where} needs a non-negative intensity`);
+    return { time: k.time, color: k.color, intensity };
+  });
+  keyframes.sort((a, b) => a.time - b.time);
+
+  return {
+    version: 1,
+    name: typeof s.name === 'string' && s.name ? s.name : 'custom',
+    duration: s.duration,
+    spread,
+    keyframes,
+  };
+};
+
+// --- ENGINE ---
+export interface LightBulbInfo {
+  strand: number;
+  u: number; // 0..1 along the strand
+}
+
+type Shader = (bulb: LightBulbInfo, index: number, time: number, out: Color) => void;
+
+// Stable per-bulb random in 0..1 (twinkle phases must not reshuffle every frame)
+const hash = (i: number) => {
+  const x = Math.sin(i * 12.9898 + 78.233) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+const createPatternShader = (name: LightPatternName, palette: Color[]): Shader => {
+  const paletteColor = (index: number) => palette[index % palette.length];
+
+  switch (name) {
+    case 'steady':
+      return (bulb, i, time, out) => out.copy(paletteColor(i)).multiplyScalar(1.5);
+    case 'chase':
+      // Bright bands running up each strand
+      return (bulb, i, time, out) => {
+        const wave = Math.max(0, Math.cos(Math.PI * 2 * (bulb.u * 6 - time * 0.6)));
+        out.copy(paletteColor(i)).multiplyScalar(0.25 + 2.25 * wave ** 8);
+      };
+    case 'twinkle':
+      return (bulb, i, time, out) => {
+        const rate = 1.5 + hash(i) * 3;
+        const flash = (0.5 + 0.5 * Math.sin(time * rate + hash(i + 1000) * Math.PI * 2)) ** 6;
+        out.copy(paletteColor(i)).multiplyScalar(0.3 + 2 * flash);
+      };
+    case 'colorWheel':
+      // Ignores the palette: the whole hue circle rolls up the tree
+      return (bulb, i, time, out) => {
+        const hue = (((bulb.u * 2 - time * 0.1) % 1) + 1) % 1;
+        out.setHSL(hue, 1, 0.5).multiplyScalar(1.6);
+      };
+    case 'breathing':
+      return (bulb, i, time, out) => {
+        const breath = 0.5 - 0.5 * Math.cos((Math.PI * 2 * time) / 4);
+        out.copy(paletteColor(i)).multiplyScalar(0.3 + 1.6 * breath);
+      };
+  }
+};
+
+const createSequenceShader = (sequence: LightSequence): Shader => {
+  const { duration, spread } = sequence;
+  const frames = sequence.keyframes.map(k => ({ time: k.time, intensity: k.intensity, color: new Color(k.color) }));
+
+  return (bulb, i, time, out) => {
+    const t = (((time - bulb.u * spread * duration) % duration) + duration) % duration;
+    // Find the surrounding keyframes; the loop wraps from the last back to the first
+    let next = frames.findIndex(f => f.time > t);
+    if (next === -1) next = 0;
+    const prev = (next - 1 + frames.length) % frames.length;
+    const a = frames[prev];
+    const b = frames[next];
+    const span = (b.time - a.time + duration) % duration || duration;
+    const k = frames.length === 1 ? 0 : (((t - a.time + duration) % duration) / span);
+    out.copy(a.color).lerp(b.color, k).multiplyScalar(a.intensity + (b.intensity - a.intensity) * k);
+  };
+};
+
+/**
+ * Compiles a program for a bulb list. The returned function fills `colors`
+ * (3 floats per bulb) for the given time in seconds.
+ */
+export const createLightEngine = (program: LightProgram, bulbs: LightBulbInfo[], paletteHex: string[]) => {
+  const palette = paletteHex.map(hex => new Color(hex));
+  const shade = typeof program === 'string' ? createPatternShader(program, palette) : createSequenceShader(program);
+  const color = new Color();
+
+  return (time: number, colors: Float32Array) => {
+    bulbs.forEach((bulb, i) => {
+      shade(bulb, i, time, color);
+      colors[i * 3] = color.r;
+      colors[i * 3 + 1] = color.g;
+      colors[i * 3 + 2] = color.b;
+    });
+  };
+};
+
+// --- LOADING ---
+export const fetchLightSequence = async (url: string): Promise<LightSequence> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load light sequence from ${url} (${response.status} ${response.statusText})`);
+  }
+  return parseLightSequence(await response.json());
+};
+
+/**
+ * Picks the light program from URL parameters:
+ *   ?lights=twinkle              a built-in pattern
+ *   ?lights=/lights/waltz.json   a keyframed sequence file
+ *   ?lights={"duration":2,...}   inline JSON
+ */
+export const loadLightProgram = async (search: string = window.location.search): Promise<LightProgram> => {
+  const source = new URLSearchParams(search).get('lights');
+  if (!source) return 'steady';
+  if (isLightPatternName(source)) return source;
+  if (source.trim().startsWith('{')) return parseLightSequence(JSON.parse(source));
+  return fetchLightSequence(source);
+};
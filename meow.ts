@@ -0,0 +1,19 @@
+// --- MEOW ---
+// The guardians' voice: a short meow bundled with the code, sped up or slowed
+// down per cat. meow.wav was made for this project, not recorded or taken from a
+// sound library: a sawtooth voice sliding 420 → 760 → 380 Hz through a band-pass
+// "mouth" that opens and closes (m-e-o-w), rendered offline to 16 kHz mono.
+
+const MEOW_URL = new URL('./meow.wav', import.meta.url).href;
+
+/** Plays one meow. `pitch` scales the voice (1 = a medium cat); `volume` is 0..1. */
+export const playMeow = (pitch = 1, volume = 0.25) => {
+  if (typeof Audio === 'undefined') return;
+  const meow = new Audio(MEOW_URL);
+  // Let the speed carry the pitch, as a smaller cat would sound
+  meow.preservesPitch = false;
+  meow.playbackRate = pitch;
+  meow.volume = volume;
+  // Clicks are user gestures, so this should be allowed; if not, the cat stays quiet
+  meow.play().catch(() => {});
+};
@@ -0,0 +1,204 @@
+import { MorphTargetName, TreeConfig } from './types';
+import { Rng } from './random';
+
+// --- MORPH TARGET LIBRARY ---
+// Each generator fills `count` xyz positions for a formation the tree can fly into.
+// 'chaos' is not generated here: it is the per-particle explosion pose from generation.
+
+export const MORPH_TARGETS: MorphTargetName[] = ['chaos', 'galaxy', 'heart', 'star', 'ring', 'text'];
+
+export interface MorphTargetOptions {
+  size: number;      // Rough extent of the formation in world units
+  centerY: number;
+  text?: string;     // For 'text'
+}
+
+// Formations are sized to the tree and float a little above its middle
+export const treeMorphOptions = (config: TreeConfig, text?: string): MorphTargetOptions => ({
+  size: config.shape.height * 1.2,
+  centerY: 2,
+  text,
+});
+
+type ShapeGenerator = (count: number, rng: Rng, options: MorphTargetOptions) => Float32Array;
+
+const gaussian = (rng: Rng) => (rng() + rng() + rng() - 1.5) / 1.5; // Cheap bell curve in -1..1
+
+const galaxy: ShapeGenerator = (count, rng, { size, centerY }) => {
+  const out = new Float32Array(count * 3);
+  const arms = 3;
+  const radius = size * 0.6;
+  // Tilt the disc towards the camera so the arms are readable
+  const tilt = 1.1;
+  const cosT = Math.cos(tilt);
+  const sinT = Math.sin(tilt);
+  for (let i = 0; i < count; i++) {
+    const r = Math.pow(rng(), 0.6) * radius;
+    const arm = Math.floor(rng() * arms);
+    const angle = (arm / arms) * Math.PI * 2 + (r / radius) * Math.PI * 2.5 + gaussian(rng) * 0.35;
+    const x = Math.cos(angle) * r;
+    const z = Math.sin(angle) * r;
+    const y = gaussian(rng) * 0.4 * (1 - r / radius); // Thicker core
+    out[i * 3] = x;
+    out[i * 3 + 1] = y * cosT - z * sinT + centerY;
+    out[i * 3 + 2] = y * sinT + z * cosT;
+  }
+  return out;
+};
+
+const heart: ShapeGenerator = (count, rng, { size, centerY }) => {
+  const out = new Float32Array(count * 3);
+  const scale = size / 34;
+  for (let i = 0; i < count; i++) {
+    const t = rng() * Math.PI * 2;
+    const fill = Math.sqrt(rng()); // Fill the shape, denser towards the outline
+    const x = 16 * Math.pow(Math.sin(t), 3);
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    out[i * 3] = x * fill * scale;
+    out[i * 3 + 1] = y * fill * scale + centerY;
+    out[i * 3 + 2] = gaussian(rng) * 0.6;
+  }
+  return out;
+};
+
+const star: ShapeGenerator = (count, rng, { size, centerY }) => {
+  const out = new Float32Array(count * 3);
+  const points = 5;
+  const outer = size * 0.5;
+  const inner = outer * 0.42;
+  for (let i = 0; i < count; i++) {
+    const angle = rng() * Math.PI * 2;
+    // Radius of the star outline at this angle: interpolate between tip and notch
+    const sector = (Math.PI * 2) / points;
+    const local = ((angle + Math.PI / 2) % sector) / sector; // 0..1 across one point
+    const edge = inner + (outer - inner) * (1 - Math.abs(local * 2 - 1));
+    const r = edge * Math.sqrt(rng());
+    out[i * 3] = Math.cos(angle) * r;
+    out[i * 3 + 1] = Math.sin(angle) * r + centerY;
+    out[i * 3 + 2] = gaussian(rng) * 0.4;
+  }
+  return out;
+};
+
+const ring: ShapeGenerator = (count, rng, { size, centerY }) => {
+  const out = new Float32Array(count * 3);
+  const major = size * 0.45;
+  const minor = size * 0.06;
+  for (let i = 0; i < count; i++) {
+    const u = rng() * Math.PI * 2;
+    const v = rng() * Math.PI * 2;
+    const r = minor * Math.sqrt(rng());
+    // Standing ring facing the camera
+    out[i * 3] = (major + r * Math.cos(v)) * Math.cos(u);
+    out[i * 3 + 1] = (major + r * Math.cos(v)) * Math.sin(u) + centerY;
+    out[i * 3 + 2] = r * Math.sin(v);
+  }
+  return out;
+};
+
+// Rasterizes the text on a small canvas and scatters points over the lit pixels
+const text: ShapeGenerator = (count, rng, options) => {
+  const pixels = rasterizeText(options.text || 'MERRY CHRISTMAS');
+  if (!pixels) return ring(count, rng, options);
+
+  const { width, height, lit } = pixels;
+  const out = new Float32Array(count * 3);
+  const worldWidth = options.size * 1.6;
+  const scale = worldWidth / width;
+  for (let i = 0; i < count; i++) {
+    const idx = lit[Math.floor(rng() * lit.length)];
+    const px = (idx % width) + rng();
+    const py = Math.floor(idx / width) + rng();
+    out[i * 3] = (px - width / 2) * scale;
+    out[i * 3 + 1] = (height / 2 - py) * scale + options.centerY;
+    out[i * 3 + 2] = gaussian(rng) * 0.3;
+  }
+  return out;
+};
+
+const rasterizeText = (value: string) => {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const fontSize = 64;
+  const font = `900 ${fontSize}px Cinzel, serif`;
+  ctx.font = font;
+  const width = Math.ceil(ctx.measureText(value).width) + 16;
+  const height = Math.ceil(fontSize * 1.3);
+  canvas.width = width;
+  canvas.height = height;
+  ctx.font = font; // Resizing resets the context
+  ctx.fillStyle = '#fff';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(value, 8, height / 2);
+
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const lit: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] > 128) lit.push(i);
+  }
+  return lit.length > 0 ? { width, height, lit } : null;
+};
+
+const GENERATORS: Record<Exclude<MorphTargetName, 'chaos'>, ShapeGenerator> = { galaxy, heart, star, ring, text };
+
+export const generateMorphTarget = (
+  name: Exclude<MorphTargetName, 'chaos'>,
+  count: number,
+  rng: Rng,
+  options: MorphTargetOptions,
+): Float32Array => GENERATORS[name](count, rng, options);
+
+export const isMorphTargetName = (value: string): value is MorphTargetName =>
+  (MORPH_TARGETS as string[]).includes(value);
+
+// --- MORPH STATE ---
+// `from` and `to` are the two destination poses being crossfaded; `blend` runs 0 -> 1.
+// The arrays are shared directly with the foliage geometry attributes; `version`
+// bumps on every retarget so other consumers know to re-read them.
+export interface MorphState {
+  from: Float32Array;
+  to: Float32Array;
+  blend: number;
+  version: number;
+}
+
+export const createMorphState = (initial: Float32Array): MorphState => ({
+  from: initial.slice(),
+  to: initial.slice(),
+  blend: 1,
+  version: 0,
+});
+
+/** Starts a crossfade from wherever the formation currently is towards `next`. */
+export const retargetMorph = (state: MorphState, next: Float32Array) => {
+  const { from, to, blend } = state;
+  for (let i = 0; i < from.length; i++) {
+    from[i] += (to[i] - from[i]) * blend;
+  }
+  to.set(next);
+  state.blend = 0;
+  state.version++;
+};
+
+/**
+ * Reads the morph setup from the URL:
+ *   ?morph=heart                      always fly into a heart
+ *   ?morph=galaxy,heart,text&cycle=6  cycle through several, 6s each while unleashed
+ *   ?text=Anna                        the text used by the 'text' target
+ */
+export const loadMorphSettings = (search: string = window.location.search) => {
+  const params = new URLSearchParams(search);
+  const sequence = (params.get('morph') || 'chaos')
+    .split(',')
+    .map(name => name.trim())
+    .filter(isMorphTargetName);
+  const cycle = Number(params.get('cycle'));
+  return {
+    sequence: sequence.length > 0 ? sequence : (['chaos'] as MorphTargetName[]),
+    cycleSeconds: Number.isFinite(cycle) && cycle > 0 ? cycle : 6,
+    text: params.get('text') || undefined,
+  };
+};
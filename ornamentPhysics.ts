@@ -0,0 +1,222 @@
+import { OrnamentData } from './types';
+import { GUARDIAN_UNLEASHED, GuardianPlacement } from './treeGenerator';
+import { Rng } from './random';
+
+// --- ORNAMENT PHYSICS ---
+// Optional alternative to the morph: unleashed ornaments are flung off the tree,
+// fall, bounce and roll on the floor and knock against each other and the
+// guardians; on reform they spring back onto the tree. A fixed-step simulation
+// with seeded impulses, so a seed plays out the same on every run and at any
+// frame rate. Everything is in tree space.
+
+export const PHYSICS_STEP = 1 / 120;
+const MAX_STEPS_PER_FRAME = 12; // After a stall, drop time rather than fall further behind
+
+export const FLOOR_Y = -2.5; // The mirror floor
+const GRAVITY = 9.8;
+const RESTITUTION = 0.45;
+const ROLLING_FRICTION = 1.5; // Per second, while resting on the floor
+
+// Slightly underdamped, so ornaments settle onto their hooks with a small swing
+const SPRING_STIFFNESS = 12;
+const SPRING_DAMPING = 6;
+const REST_DISTANCE = 0.002;
+
+// The guardians' bodies where they stand once unleashed (see GuardianCats)
+const GUARDIAN_RADIUS = 1.0;
+const GUARDIAN_TOP = -0.6; // Top of the head, before growth
+
+interface GuardianCollider {
+  x: number;
+  z: number;
+  radius: number;
+  top: number;
+}
+
+export const guardianColliders = (guardians: GuardianPlacement[]): GuardianCollider[] => {
+  const { spread, growth } = GUARDIAN_UNLEASHED;
+  return guardians.map(g => ({
+    x: g.x * (1 + spread) * (1 + growth),
+    z: g.z * (1 + spread) * (1 + growth),
+    radius: GUARDIAN_RADIUS * (1 + growth),
+    top: GUARDIAN_TOP * (1 + growth),
+  }));
+};
+
+export interface OrnamentPhysics {
+  positions: Float32Array; // xyz per ornament
+  version: number;         // Bumped whenever positions change
+  /** Flings everything off the tree (true) or springs it back (false). */
+  setUnleashed: (unleashed: boolean) => void;
+  /** Runs as many fixed steps as the elapsed time covers. */
+  advance: (delta: number) => void;
+  /** Runs exactly `steps` fixed steps (replays and tests). */
+  step: (steps?: number) => void;
+}
+
+export const createOrnamentPhysics = (ornaments: OrnamentData[], guardians: GuardianPlacement[], rng: Rng): OrnamentPhysics => {
+  const count = ornaments.length;
+  const targets = new Float32Array(count * 3);
+  const positions = new Float32Array(count * 3);
+  const velocities = new Float32Array(count * 3);
+  const impulses = new Float32Array(count * 3);
+  const radii = new Float32Array(count);
+  const colliders = guardianColliders(guardians);
+
+  ornaments.forEach((o, i) => {
+    targets.set(o.position.target, i * 3);
+    // Boxes are unit cubes, bauble spheres have radius 1, both scaled by size
+    radii[i] = o.type === 'gift' ? o.size * 0.6 : o.size;
+
+    // Outward from the trunk, up, and a little around it
+    const [x, , z] = o.position.target;
+    const r = Math.hypot(x, z) || 1;
+    const out = 3 + rng() * 4;
+    const around = (rng() - 0.5) * 3;
+    impulses[i * 3] = (x / r) * out - (z / r) * around;
+    impulses[i * 3 + 1] = 4 + rng() * 5;
+    impulses[i * 3 + 2] = (z / r) * out + (x / r) * around;
+  });
+  positions.set(targets);
+
+  const maxRadius = radii.reduce((max, r) => Math.max(max, r), 0.01);
+  const cellSize = maxRadius * 2;
+  const cells = new Map<number, number[]>();
+  const cellOf = (v: number) => Math.floor(v / cellSize) + 512;
+  const cellKey = (cx: number, cy: number, cz: number) => (cx * 1024 + cy) * 1024 + cz;
+
+  let unleashed = false;
+  let resting = true; // On the tree and still: nothing to simulate
+  let accumulator = 0;
+
+  // Pushes two overlapping ornaments apart and exchanges their approach speed
+  const collidePair = (i: number, j: number) => {
+    const dx = positions[j * 3] - positions[i * 3];
+    const dy = positions[j * 3 + 1] - positions[i * 3 + 1];
+    const dz = positions[j * 3 + 2] - positions[i * 3 + 2];
+    const minDistance = radii[i] + radii[j];
+    const distSq = dx * dx + dy * dy + dz * dz;
+    if (distSq >= minDistance * minDistance || distSq === 0) return;
+    const distance = Math.sqrt(distSq);
+    const nx = dx / distance, ny = dy / distance, nz = dz / distance;
+    const push = (minDistance - distance) / 2;
+    positions[i * 3] -= nx * push; positions[i * 3 + 1] -= ny * push; positions[i * 3 + 2] -= nz * push;
+    positions[j * 3] += nx * push; positions[j * 3 + 1] += ny * push; positions[j * 3 + 2] += nz * push;
+
+    const approach = (velocities[j * 3] - velocities[i * 3]) * nx
+      + (velocities[j * 3 + 1] - velocities[i * 3 + 1]) * ny
+      + (velocities[j * 3 + 2] - velocities[i * 3 + 2]) * nz;
+    if (approach >= 0) return;
+    const impulse = (-(1 + RESTITUTION) * approach) / 2;
+    velocities[i * 3] -= nx * impulse; velocities[i * 3 + 1] -= ny * impulse; velocities[i * 3 + 2] -= nz * impulse;
+    velocities[j * 3] += nx * impulse; velocities[j * 3 + 1] += ny * impulse; velocities[j * 3 + 2] += nz * impulse;
+  };
+
+  const collideOrnaments = () => {
+    // Uniform grid, so only neighbours are compared
+    cells.clear();
+    for (let i = 0; i < count; i++) {
+      const key = cellKey(cellOf(positions[i * 3]), cellOf(positions[i * 3 + 1]), cellOf(positions[i * 3 + 2]));
+      const cell = cells.get(key);
+      if (cell) cell.push(i);
+      else cells.set(key, [i]);
+    }
+    for (let i = 0; i < count; i++) {
+      const cx = cellOf(positions[i * 3]), cy = cellOf(positions[i * 3 + 1]), cz = cellOf(positions[i * 3 + 2]);
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          for (let oz = -1; oz <= 1; oz++) {
+            cells.get(cellKey(cx + ox, cy + oy, cz + oz))?.forEach(j => { if (j > i) collidePair(i, j); });
+          }
+        }
+      }
+    }
+  };
+
+  const collideScene = (i: number, dt: number) => {
+    const r = radii[i];
+    // Floor: bounce, and roll to a stop while touching it
+    if (positions[i * 3 + 1] - r < FLOOR_Y) {
+      positions[i * 3 + 1] = FLOOR_Y + r;
+      if (velocities[i * 3 + 1] < 0) velocities[i * 3 + 1] *= -RESTITUTION;
+      const friction = Math.max(0, 1 - ROLLING_FRICTION * dt);
+      velocities[i * 3] *= friction;
+      velocities[i * 3 + 2] *= friction;
+    }
+    // Guardians: upright cylinders standing on the floor
+    colliders.forEach(c => {
+      if (positions[i * 3 + 1] - r > c.top) return;
+      const dx = positions[i * 3] - c.x;
+      const dz = positions[i * 3 + 2] - c.z;
+      const distance = Math.hypot(dx, dz);
+      const minDistance = c.radius + r;
+      if (distance >= minDistance || distance === 0) return;
+      const nx = dx / distance, nz = dz / distance;
+      positions[i * 3] = c.x + nx * minDistance;
+      positions[i * 3 + 2] = c.z + nz * minDistance;
+      const approach = velocities[i * 3] * nx + velocities[i * 3 + 2] * nz;
+      if (approach < 0) {
+        velocities[i * 3] -= (1 + RESTITUTION) * approach * nx;
+        velocities[i * 3 + 2] -= (1 + RESTITUTION) * approach * nz;
+      }
+    });
+  };
+
+  const fixedStep = () => {
+    const dt = PHYSICS_STEP;
+    let moving = false;
+    for (let i = 0; i < count * 3; i++) {
+      // Semi-implicit Euler: gravity while unleashed, a spring to the hook otherwise
+      let a = 0;
+      if (unleashed) {
+        if (i % 3 === 1) a = -GRAVITY;
+      } else {
+        a = SPRING_STIFFNESS * (targets[i] - positions[i]) - SPRING_DAMPING * velocities[i];
+        if (Math.abs(targets[i] - positions[i]) > REST_DISTANCE || Math.abs(velocities[i]) > REST_DISTANCE) moving = true;
+      }
+      velocities[i] += a * dt;
+      positions[i] += velocities[i] * dt;
+    }
+    if (unleashed) {
+      for (let i = 0; i < count; i++) collideScene(i, dt);
+      collideOrnaments();
+    } else if (!moving) {
+      // Back on the tree: snap onto the hooks and stop simulating
+      positions.set(targets);
+      velocities.fill(0);
+      resting = true;
+    }
+    physics.version++;
+  };
+
+  const physics: OrnamentPhysics = {
+    positions,
+    version: 0,
+    setUnleashed: (next) => {
+      if (next === unleashed) return;
+      unleashed = next;
+      if (!next) return;
+      resting = false;
+      for (let i = 0; i < count * 3; i++) velocities[i] += impulses[i];
+    },
+    advance: (delta) => {
+      if (resting) {
+        accumulator = 0;
+        return;
+      }
+      accumulator = Math.min(accumulator + delta, PHYSICS_STEP * MAX_STEPS_PER_FRAME);
+      while (accumulator >= PHYSICS_STEP && !resting) {
+        accumulator -= PHYSICS_STEP;
+        fixedStep();
+      }
+    },
+    step: (steps = 1) => {
+      for (let s = 0; s < steps && !resting; s++) fixedStep();
+    },
+  };
+  return physics;
+};
+
+/** ?physics=on starts in physics mode. */
+export const loadPhysicsMode = (search: string = window.location.search): boolean =>
+  new URLSearchParams(search).get('physics') === 'on';
@@ -0,0 +1,119 @@
+// --- ADAPTIVE QUALITY ---
+// Quality tiers, best first, and a governor that steps between them based on
+// measured frame times. The governor is plain TS so it can be driven by fake clocks.
+
+export type QualityTierName = 'ultra' | 'high' | 'medium' | 'low';
+export type QualityMode = 'auto' | QualityTierName;
+
+export interface QualityTier {
+  name: QualityTierName;
+  label: string;
+  dpr: number | [number, number];
+  reflector: { resolution: number; blur: [number, number] } | null; // null = plain floor
+  shadows: boolean;
+  detail: number;                     // 0..1 share of needles and ornaments drawn
+  post: 'full' | 'reduced' | 'none';  // Bloom+Vignette+Noise / Bloom+Vignette / nothing
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'ultra', label: 'Ultra', dpr: [1, 2], reflector: { resolution: 1024, blur: [300, 100] }, shadows: true, detail: 1, post: 'full' },
+  { name: 'high', label: 'High', dpr: [1, 1.5], reflector: { resolution: 512, blur: [200, 60] }, shadows: true, detail: 1, post: 'full' },
+  { name: 'medium', label: 'Medium', dpr: 1, reflector: { resolution: 256, blur: [100, 30] }, shadows: false, detail: 0.6, post: 'reduced' },
+  { name: 'low', label: 'Low', dpr: 0.75, reflector: null, shadows: false, detail: 0.35, post: 'none' },
+];
+
+export const getQualityTier = (name: QualityTierName): QualityTier =>
+  QUALITY_TIERS.find(tier => tier.name === name) ?? QUALITY_TIERS[0];
+
+export const isQualityMode = (value: string): value is QualityMode =>
+  value === 'auto' || QUALITY_TIERS.some(tier => tier.name === value);
+
+/** ?quality=low pins a tier; anything else (or nothing) means auto. */
+export const loadQualityMode = (search: string = window.location.search): QualityMode => {
+  const value = new URLSearchParams(search).get('quality');
+  return value && isQualityMode(value) ? value : 'auto';
+};
+
+export interface GovernorOptions {
+  downshiftFrameMs: number; // Average frame time above this degrades a tier...
+  upshiftFrameMs: number;   // ...below this (for a while) restores one
+  windowMs: number;         // Averaging window
+  cooldownMs: number;       // Minimum time between any two changes
+  upshiftAfterMs: number;   // Sustained good performance needed before upgrading
+  maxFrameMs: number;       // Longer frames are ignored (tab switches, GC hiccups, loading)
+}
+
+export const DEFAULT_GOVERNOR_OPTIONS: GovernorOptions = {
+  downshiftFrameMs: 1000 / 45,
+  upshiftFrameMs: 1000 / 58,
+  windowMs: 2000,
+  cooldownMs: 3000,
+  upshiftAfterMs: 10000,
+  maxFrameMs: 250,
+};
+
+export interface QualityGovernor {
+  /** Feed one frame; returns the new tier index when it changes, else null. */
+  sample: (frameMs: number, now: number) => number | null;
+  getTierIndex: () => number;
+  reset: (tierIndex: number, now: number) => void;
+}
+
+export const createQualityGovernor = (
+  initialTier = 0,
+  overrides: Partial<GovernorOptions> = {},
+): QualityGovernor => {
+  const options = { ...DEFAULT_GOVERNOR_OPTIONS, ...overrides };
+  let tier = initialTier;
+  let samples: { time: number; frameMs: number }[] = [];
+  let lastChange = -Infinity;
+  let goodSince: number | null = null;
+  // Backs off when an upgrade immediately proves too slow, so tiers don't flap
+  let upshiftDelay = options.upshiftAfterMs;
+  let lastUpshift = -Infinity;
+
+  const change = (next: number, now: number) => {
+    tier = next;
+    lastChange = now;
+    samples = []; // Measure the new tier from scratch
+    goodSince = null;
+    return next;
+  };
+
+  return {
+    sample: (frameMs, now) => {
+      if (frameMs > options.maxFrameMs) return null;
+      samples.push({ time: now, frameMs });
+      while (samples.length > 0 && samples[0].time < now - options.windowMs) samples.shift();
+
+      // Wait for a full window after start or a change
+      if (now - lastChange < Math.max(options.cooldownMs, options.windowMs)) return null;
+      if (samples.length === 0 || now - samples[0].time < options.windowMs * 0.9) return null;
+
+      const average = samples.reduce((sum, s) => sum + s.frameMs, 0) / samples.length;
+
+      if (average > options.downshiftFrameMs) {
+        goodSince = null;
+        if (tier >= QUALITY_TIERS.length - 1) return null;
+        if (now - lastUpshift < options.upshiftAfterMs) upshiftDelay *= 2;
+        return change(tier + 1, now);
+      }
+      if (average < options.upshiftFrameMs) {
+        goodSince ??= now;
+        if (tier > 0 && now - goodSince >= upshiftDelay) {
+          lastUpshift = now;
+          return change(tier - 1, now);
+        }
+      } else {
+        goodSince = null;
+      }
+      return null;
+    },
+    getTierIndex: () => tier,
+    reset: (tierIndex, now) => {
+      upshiftDelay = options.upshiftAfterMs;
+      lastUpshift = -Infinity;
+      change(tierIndex, now);
+    },
+  };
+};
@@ -0,0 +1,51 @@
+// --- SEEDED RANDOMNESS ---
+// Every random choice in tree generation goes through one of these, so a seed
+// fully describes a tree and can be shared in a link.
+
+export type Rng = () => number;
+
+// Mulberry32: tiny, fast and good enough for visuals. Returns floats in [0, 1).
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Independent stream per subsystem, so adding needles doesn't reshuffle the ornaments
+export const deriveRng = (seed: number, stream: string): Rng => createRng(hashString(stream) ^ seed);
+
+// FNV-1a, lets people use words as seeds (?seed=anna)
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const parseSeed = (value: string): number =>
+  /^\d+$/.test(value) ? Number(value) >>> 0 : hashString(value);
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+/** Reads ?seed= from the URL, or picks a new seed and writes it back so the link is shareable. */
+export const getUrlSeed = (): number => {
+  const url = new URL(window.location.href);
+  const param = url.searchParams.get('seed');
+  if (param) return parseSeed(param);
+  const seed = randomSeed();
+  setUrlSeed(seed);
+  return seed;
+};
+
+export const setUrlSeed = (seed: number) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('seed', String(seed));
+  window.history.replaceState(null, '', url);
+};
@@ -0,0 +1,184 @@
+import { Vector3Array } from './types';
+import { PROGRESS_RATES } from './sync';
+import { HEX_COLOR } from './colors';
+
+// --- SCENE TUNING ---
+// The look of the scene as data: post-processing, fog, lights, the mirror floor
+// and how quickly the tree eases. The dev panel (TuningPanel) edits it live;
+// named presets live in localStorage and travel as JSON.
+
+// Shader order: the foliage shader switches on the index
+export const FOLIAGE_EASINGS = ['linear', 'cubic', 'smootherstep', 'expoOut', 'backOut'] as const;
+export const FOLIAGE_WAVES = ['bottomUp', 'topDown', 'centerOut'] as const;
+export type FoliageEasing = typeof FOLIAGE_EASINGS[number];
+export type FoliageWave = typeof FOLIAGE_WAVES[number];
+
+export interface FoliageTuning {
+  easing: FoliageEasing; // Curve of each needle's trip between tree and chaos
+  wave: FoliageWave;     // Which needles set off first
+  stagger: number;       // 0..0.9 share of the morph spent waiting for a needle's turn
+  twinkle: number;       // Sparkle on the tip needles
+  sway: number;          // Breeze on the formed tree (wind adds to it)
+  needleSize: number;    // World units, so needles keep their size at any resolution
+}
+
+export interface LightTuning {
+  position: Vector3Array;
+  intensity: number;
+  color: string | null; // null = the theme's color
+}
+
+export interface SceneTuning {
+  bloom: {
+    threshold: number;
+    intensity: number; // Times the theme's bloom
+    radius: number;
+  };
+  vignette: { offset: number; darkness: number };
+  noise: { opacity: number };
+  fog: { near: number; far: number };
+  lights: {
+    ambient: number;
+    key: LightTuning;
+    fill: LightTuning;
+    accent: LightTuning;
+  };
+  reflector: { mixStrength: number; mirror: number };
+  foliage: FoliageTuning;
+  damping: {
+    unleash: number;  // Ease rates (per second) towards chaos and back; a shared session keeps the relay's
+    reform: number;
+    rotation: number; // Swipe spins
+    morph: number;    // Crossfade between morph targets
+    scripted: number; // Following a timeline
+  };
+}
+
+export const DEFAULT_SCENE_TUNING: SceneTuning = {
+  bloom: { threshold: 0.6, intensity: 1, radius: 0.4 },
+  vignette: { offset: 0.1, darkness: 1.1 },
+  noise: { opacity: 0.05 },
+  fog: { near: 10, far: 40 },
+  lights: {
+    ambient: 0.2,
+    key: { position: [10, 15, 10], intensity: 20, color: null },
+    fill: { position: [-10, 5, -5], intensity: 5, color: null },
+    accent: { position: [5, -2, 5], intensity: 5, color: null },
+  },
+  reflector: { mixStrength: 60, mirror: 0.7 },
+  foliage: { easing: 'cubic', wave: 'bottomUp', stagger: 0.35, twinkle: 1, sway: 0.04, needleSize: 0.025 },
+  damping: { unleash: PROGRESS_RATES.unleash, reform: PROGRESS_RATES.reform, rotation: 3, morph: 1.5, scripted: 6 },
+};
+
+// --- EDITING ---
+/** A copy of `tuning` with the value at a dotted path (e.g. "lights.key.intensity") replaced. */
+export const updateTuning = (tuning: SceneTuning, path: string, value: unknown): SceneTuning => {
+  const set = (node: Record<string, unknown>, keys: string[]): Record<string, unknown> =>
+    keys.length === 0 ? node : { ...node, [keys[0]]: keys.length === 1 ? value : set(node[keys[0]] as Record<string, unknown>, keys.slice(1)) };
+  return set(tuning as unknown as Record<string, unknown>, path.split('.')) as unknown as SceneTuning;
+};
+
+export const readTuning = (tuning: SceneTuning, path: string): unknown =>
+  path.split('.').reduce<unknown>((node, key) => (node as Record<string, unknown>)[key], tuning);
+
+// --- VALIDATION ---
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Settings that name one of a few options rather than a color
+const CHOICES: Record<string, readonly string[]> = {
+  'foliage.easing': FOLIAGE_EASINGS,
+  'foliage.wave': FOLIAGE_WAVES,
+};
+
+/**
+ * Checks a (possibly partial) tuning against the defaults' shape and fills in
+ * whatever it leaves out. Accepts an exported file ({ version, tuning }) or a
+ * bare tuning. Throws with the first problem found.
+ */
+export const parseSceneTuning = (json: unknown): SceneTuning => {
+  const input = (json as TuningFile | null)?.version === 1 ? (json as TuningFile).tuning : json;
+
+  const merge = (base: unknown, value: unknown, path: string): unknown => {
+    if (value === undefined) return base;
+    const where = path || 'tuning';
+    if (Array.isArray(base)) {
+      if (!Array.isArray(value) || value.length !== base.length || !value.every(isNumber)) throw new Error(`${where} must be [x, y, z]`);
+      return value;
+    }
+    if (CHOICES[path]) {
+      if (typeof value !== 'string' || !CHOICES[path].includes(value)) throw new Error(`${where} must be one of ${CHOICES[path].join(', ')}`);
+      return value;
+    }
+    if (base === null || typeof base === 'string') {
+      if (value !== null && (typeof value !== 'string' || !HEX_COLOR.test(value))) throw new Error(`${where} must be a hex color or null`);
+      return value;
+    }
+    if (typeof base === 'number') {
+      if (!isNumber(value)) throw new Error(`${where} must be a number`);
+      return value;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${where} must be an object`);
+    const record = value as Record<string, unknown>;
+    const known = base as Record<string, unknown>;
+    const stray = Object.keys(record).find(key => !(key in known));
+    if (stray) throw new Error(`Unknown setting ${path ? `${path}.` : ''}${stray}`);
+    return Object.fromEntries(Object.entries(known).map(([key, b]) => [key, merge(b, record[key], path ? `${path}.${key}` : key)]));
+  };
+
+  return merge(DEFAULT_SCENE_TUNING, input, '') as SceneTuning;
+};
+
+interface TuningFile {
+  version: 1;
+  tuning: SceneTuning;
+}
+
+export const toTuningFile = (tuning: SceneTuning): TuningFile => ({ version: 1, tuning });
+
+// --- STORAGE ---
+// The live tuning survives a reload; presets are kept by name
+const TUNING_KEY = 'annatree.tuning';
+const PRESETS_KEY = 'annatree.tuningPresets';
+
+export const loadSceneTuning = (): SceneTuning => {
+  try {
+    const raw = localStorage.getItem(TUNING_KEY);
+    return raw ? parseSceneTuning(JSON.parse(raw)) : DEFAULT_SCENE_TUNING;
+  } catch (e) {
+    console.warn("Ignoring unreadable scene tuning", e);
+    return DEFAULT_SCENE_TUNING;
+  }
+};
+
+export const saveSceneTuning = (tuning: SceneTuning) => {
+  try {
+    localStorage.setItem(TUNING_KEY, JSON.stringify(tuning));
+  } catch (e) {
+    console.warn("Could not save scene tuning", e);
+  }
+};
+
+export const loadTuningPresets = (): Record<string, SceneTuning> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESETS_KEY) || '{}') as Record<string, unknown>;
+    const presets: Record<string, SceneTuning> = {};
+    for (const [name, tuning] of Object.entries(saved)) {
+      try {
+        presets[name] = parseSceneTuning(tuning);
+      } catch (e) {
+        console.warn(`Ignoring unreadable tuning preset "${name}"`, e);
+      }
+    }
+    return presets;
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveTuningPresets = (presets: Record<string, SceneTuning>) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.warn("Could not save tuning presets", e);
+  }
+};
@@ -0,0 +1,53 @@
+import { Rng } from './random';
+
+// --- SNOW SETTINGS ---
+export interface SnowSettings {
+  density: number;        // Flakes at full quality (0 = no snow)
+  wind: [number, number]; // Steady wind along x and z, in units per second
+}
+
+export const DEFAULT_SNOW_SETTINGS: SnowSettings = {
+  density: 4000,
+  wind: [0.4, 0.1],
+};
+
+const MAX_FLAKES = 50000;
+
+/**
+ *   ?snow=8000     flake count (0 turns snow off)
+ *   ?wind=1.5,-0.3 wind along x and z
+ */
+export const loadSnowSettings = (search: string = window.location.search): SnowSettings => {
+  const params = new URLSearchParams(search);
+  const density = Number(params.get('snow') ?? DEFAULT_SNOW_SETTINGS.density);
+  const wind = (params.get('wind') || '').split(',').map(Number);
+  return {
+    density: Number.isFinite(density) ? Math.min(Math.max(Math.round(density), 0), MAX_FLAKES) : DEFAULT_SNOW_SETTINGS.density,
+    wind: wind.length === 2 && wind.every(Number.isFinite) ? [wind[0], wind[1]] : DEFAULT_SNOW_SETTINGS.wind,
+  };
+};
+
+// --- FLAKE GENERATION ---
+export const SNOW_AREA_RADIUS = 14;
+
+/**
+ * Per-flake constants for the snow shader. Motion itself is a function of time,
+ * so nothing is simulated on the CPU.
+ */
+export const generateSnowflakes = (count: number, rng: Rng) => {
+  const spawn = new Float32Array(count * 3); // x, phase, z
+  const fall = new Float32Array(count);
+  const size = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    // Uniform over a disc around the tree
+    const r = SNOW_AREA_RADIUS * Math.sqrt(rng());
+    const theta = rng() * Math.PI * 2;
+    spawn[i * 3] = r * Math.cos(theta);
+    spawn[i * 3 + 1] = rng();
+    spawn[i * 3 + 2] = r * Math.sin(theta);
+    fall[i] = 0.6 + rng() * 0.8;
+    size[i] = 0.5 + rng() * 0.5;
+  }
+  return { spawn, fall, size };
+};
@@ -0,0 +1,172 @@
+// --- SHARED SESSIONS ---
+// Several screens watch one tree. The relay (syncRelay.mjs) keeps the room
+// state and stamps every change with its own clock; clients translate those
+// stamps to local time so the unleash/reform easing lines up everywhere.
+
+// --- PROGRESS EASING ---
+// Exponential approach of the tree's progress to its target (what MathUtils.damp
+// does frame by frame). syncRelay.mjs repeats these rates; keep them equal.
+export const PROGRESS_RATES = { unleash: 2.0, reform: 1.0 };
+
+export const progressAfter = (from: number, unleashed: boolean, seconds: number) => {
+  const target = unleashed ? 1 : 0;
+  const rate = unleashed ? PROGRESS_RATES.unleash : PROGRESS_RATES.reform;
+  return target + (from - target) * Math.exp(-rate * Math.max(seconds, 0));
+};
+
+// --- PROTOCOL ---
+export interface SharedState {
+  seed: number | null;   // null until the first viewer brings one
+  theme: string | null;
+  unleashed: boolean;
+  changedAt: number;     // Relay time (ms) of the last unleash/reform
+  progressFrom: number;  // Progress at changedAt
+  version: number;
+}
+
+export type SharedPatch = Partial<Pick<SharedState, 'seed' | 'theme' | 'unleashed'>>;
+
+export type ClientMessage =
+  | { type: 'hello'; room: string }
+  | { type: 'set'; patch: SharedPatch }
+  | { type: 'ping'; id: number; clientTime: number };
+
+export type RelayMessage =
+  | { type: 'state'; state: SharedState; peers: number; serverTime: number }
+  | { type: 'pong'; id: number; clientTime: number; serverTime: number };
+
+// --- CLOCK OFFSET ---
+// NTP-style: the sample with the shortest round trip is the most trustworthy
+export const createClockSync = (window = 8) => {
+  let samples: { rtt: number; offset: number }[] = [];
+  return {
+    add: (clientSend: number, serverTime: number, clientReceive: number) => {
+      const rtt = clientReceive - clientSend;
+      samples = [...samples, { rtt, offset: serverTime - (clientSend + rtt / 2) }].slice(-window);
+    },
+    /** Relay time minus local time, in ms (0 until the first pong). */
+    offset: () => (samples.length === 0 ? 0 : samples.reduce((best, s) => (s.rtt < best.rtt ? s : best)).offset),
+    size: () => samples.length,
+    reset: () => { samples = []; },
+  };
+};
+
+// --- CLIENT ---
+export type SyncStatus = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface SyncedProgress {
+  unleashed: boolean;
+  from: number;
+  startedAt: number; // Local performance.now() time of the change
+}
+
+export interface SyncClientOptions {
+  url: string;
+  room: string;
+  onState: (state: SharedState, progress: SyncedProgress) => void;
+  onStatus: (status: SyncStatus, peers: number) => void;
+}
+
+export interface SyncClient {
+  set: (patch: SharedPatch) => void;
+  close: () => void;
+}
+
+const PING_INTERVAL_MS = 5000;
+const MAX_BACKOFF_MS = 15000;
+
+export const createSyncClient = ({ url, room, onState, onStatus }: SyncClientOptions): SyncClient => {
+  const clock = createClockSync();
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let attempts = 0;
+  let pingId = 0;
+  let pingTimer: ReturnType<typeof setInterval> | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let peers = 0;
+  let estimated = false; // The clock holds only the first state's guess, with no round trip behind it
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const ping = () => send({ type: 'ping', id: ++pingId, clientTime: performance.now() });
+
+  const handleMessage = (event: MessageEvent) => {
+    let message: RelayMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch (e) {
+      return;
+    }
+    if (message.type === 'pong') {
+      // A real round trip replaces the guess rather than averaging with it
+      if (estimated) {
+        estimated = false;
+        clock.reset();
+      }
+      clock.add(message.clientTime, message.serverTime, performance.now());
+    } else if (message.type === 'state') {
+      // First state: estimate the offset from this message until pongs arrive
+      if (clock.size() === 0) {
+        estimated = true;
+        clock.add(performance.now(), message.serverTime, performance.now());
+      }
+      peers = message.peers;
+      onStatus('connected', peers);
+      const { state } = message;
+      onState(state, { unleashed: state.unleashed, from: state.progressFrom, startedAt: state.changedAt - clock.offset() });
+    }
+  };
+
+  const connect = () => {
+    onStatus(attempts === 0 ? 'connecting' : 'reconnecting', peers);
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempts = 0;
+      clock.reset();
+      estimated = false;
+      send({ type: 'hello', room });
+      ping();
+      pingTimer = setInterval(ping, PING_INTERVAL_MS);
+    };
+    ws.onmessage = handleMessage;
+    ws.onclose = () => {
+      clearInterval(pingTimer);
+      if (socket !== ws || closed) return;
+      socket = null;
+      // Exponential backoff with jitter, so a restarted relay isn't stampeded
+      const delay = Math.min(1000 * 2 ** attempts, MAX_BACKOFF_MS) * (0.75 + Math.random() * 0.5);
+      attempts++;
+      onStatus('reconnecting', peers);
+      retryTimer = setTimeout(connect, delay);
+    };
+    ws.onerror = () => ws.close();
+  };
+
+  connect();
+
+  return {
+    set: (patch) => send({ type: 'set', patch }),
+    close: () => {
+      closed = true;
+      clearInterval(pingTimer);
+      clearTimeout(retryTimer);
+      socket?.close();
+      socket = null;
+      onStatus('closed', 0);
+    },
+  };
+};
+
+/**
+ *   ?sync=ws://192.168.1.20:8787  join a relay
+ *   ?room=lobby                   pick a room on it (default "tree")
+ */
+export const loadSyncSettings = (search: string = window.location.search) => {
+  const params = new URLSearchParams(search);
+  const url = params.get('sync');
+  return url ? { url, room: params.get('room') || 'tree' } : null;
+};
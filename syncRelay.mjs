@@ -0,0 +1,204 @@
+// --- SHARED SESSION RELAY ---
+// Reference relay for ?sync=. No dependencies: a minimal WebSocket server
+// (text frames, ping/pong, close) on top of node:http.
+//
+//   node syncRelay.mjs            listens on port 8787
+//   PORT=9000 node syncRelay.mjs
+//
+// Each room keeps one shared state. Changes are stamped with the relay's
+// clock, which is the timeline every client aligns its easing to.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_PAYLOAD = 64 * 1024;
+const MAX_ROOM_NAME = 64;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Must match PROGRESS_RATES in sync.ts
+const PROGRESS_RATES = { unleash: 2.0, reform: 1.0 };
+
+const progressAfter = (from, unleashed, seconds) => {
+  const target = unleashed ? 1 : 0;
+  const rate = unleashed ? PROGRESS_RATES.unleash : PROGRESS_RATES.reform;
+  return target + (from - target) * Math.exp(-rate * Math.max(seconds, 0));
+};
+
+// --- ROOMS ---
+const rooms = new Map();
+
+const getRoom = (name) => {
+  let room = rooms.get(name);
+  if (!room) {
+    room = {
+      name,
+      clients: new Set(),
+      state: { seed: null, theme: null, unleashed: false, changedAt: Date.now(), progressFrom: 0, version: 0 },
+    };
+    rooms.set(name, room);
+  }
+  return room;
+};
+
+const broadcast = (room) => {
+  const message = JSON.stringify({ type: 'state', state: room.state, peers: room.clients.size, serverTime: Date.now() });
+  room.clients.forEach(client => client.send(message));
+};
+
+const applyPatch = (room, patch) => {
+  const state = { ...room.state };
+  const now = Date.now();
+  if (Number.isSafeInteger(patch.seed) && patch.seed >= 0) state.seed = patch.seed;
+  if (typeof patch.theme === 'string' && patch.theme.length <= MAX_ROOM_NAME) state.theme = patch.theme;
+  if (typeof patch.unleashed === 'boolean' && patch.unleashed !== state.unleashed) {
+    // Where the old easing had got to is where the new one starts, for everyone
+    state.progressFrom = progressAfter(state.progressFrom, state.unleashed, (now - state.changedAt) / 1000);
+    state.changedAt = now;
+    state.unleashed = patch.unleashed;
+  }
+  state.version++;
+  room.state = state;
+  broadcast(room);
+};
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch (e) {
+    return;
+  }
+  if (message.type === 'hello' && typeof message.room === 'string' && message.room.length <= MAX_ROOM_NAME) {
+    client.leave();
+    client.room = getRoom(message.room);
+    client.room.clients.add(client);
+    broadcast(client.room); // Newcomer gets the state, everyone gets the new peer count
+  } else if (message.type === 'set' && client.room && message.patch && typeof message.patch === 'object') {
+    applyPatch(client.room, message.patch);
+  } else if (message.type === 'ping' && typeof message.id === 'number') {
+    client.send(JSON.stringify({ type: 'pong', id: message.id, clientTime: message.clientTime, serverTime: Date.now() }));
+  }
+};
+
+// --- WEBSOCKET FRAMING ---
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN + opcode; servers never mask
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const createClient = (socket) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let open = true;
+
+  const client = {
+    room: null,
+    send: (text) => { if (open) socket.write(encodeFrame(0x1, Buffer.from(text))); },
+    leave: () => {
+      if (!client.room) return;
+      const room = client.room;
+      room.clients.delete(client);
+      client.room = null;
+      // The last one out closes the room, so abandoned rooms don't pile up
+      if (room.clients.size > 0) broadcast(room);
+      else rooms.delete(room.name);
+    },
+  };
+
+  const close = (code = 1000) => {
+    if (!open) return;
+    open = false;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    socket.end(encodeFrame(0x8, payload));
+    client.leave();
+  };
+
+  // Parses as many complete frames as the buffer holds
+  const drain = () => {
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        const big = buffer.readBigUInt64BE(2);
+        if (big > BigInt(MAX_PAYLOAD)) return close(1009);
+        length = Number(big);
+        offset = 10;
+      }
+      if (!masked) return close(1002); // Clients must mask
+      if (length > MAX_PAYLOAD) return close(1009);
+      if (buffer.length < offset + 4 + length) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) return close();
+      if (opcode === 0x9) { socket.write(encodeFrame(0xa, payload)); continue; }
+      if (opcode === 0xa) continue;
+      if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        if (fragments.reduce((sum, f) => sum + f.length, 0) > MAX_PAYLOAD) return close(1009);
+        if (fin) {
+          handleMessage(client, Buffer.concat(fragments).toString('utf8'));
+          fragments = [];
+        }
+      }
+      // Binary frames are not part of the protocol and are ignored
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    drain();
+  });
+  socket.on('close', () => { open = false; client.leave(); });
+  socket.on('error', () => { open = false; client.leave(); });
+  return client;
+};
+
+// --- SERVER ---
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`Tree sync relay: ${rooms.size} room(s)\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+  socket.setNoDelay(true);
+  createClient(socket);
+});
+
+server.listen(PORT, () => console.log(`Tree sync relay on ws://localhost:${PORT}`));
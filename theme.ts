@@ -0,0 +1,202 @@
+import { PartialTreeConfig } from './types';
+import { TREE_PRESETS } from './treeConfig';
+
+// --- THEMES ---
+// Everything that brands the scene for a recipient: palette, fonts, title
+// texts, light colors, bloom and the tree's own colors. ThemeContext.tsx
+// provides the active theme to both the overlay and the Canvas.
+
+export interface ThemeTexts {
+  kicker: string; // Small line above the name
+  name: string;
+  title: string;
+  badge: string;  // Vertical text at the side
+}
+
+export interface Theme {
+  name: ThemeName;
+  label: string;
+  palette: {
+    accent: string;     // Overlay text, borders, metals
+    accentDeep: string; // Dark end of the title gradient
+    background: string; // Scene background and fog
+    page: string;       // Behind the canvas
+    floor: string;
+    plinth: string;
+    eyes: string;       // Guardian cats
+    sheen: string;      // Highlight in the middle of each needle
+  };
+  fonts: {
+    display: string; // Big title
+    accent: string;  // Labels and buttons
+  };
+  texts: ThemeTexts;
+  lights: {
+    key: string;    // Spotlight
+    fill: string;
+    accent: string;
+    topper: string;
+  };
+  bloom: number;
+  tree: PartialTreeConfig; // Colors merged under ?tree= and ?config=
+}
+
+export type ThemeName = 'gold' | 'silver' | 'rose' | 'classic';
+
+const DEFAULT_TEXTS: ThemeTexts = {
+  kicker: 'The Presidential Collection',
+  name: "ANNA QIAO'S",
+  title: 'CHRISTMAS TREE',
+  badge: 'EST. 2025',
+};
+
+export const THEMES: Record<ThemeName, Theme> = {
+  gold: {
+    name: 'gold',
+    label: 'Gold',
+    palette: {
+      accent: '#FFD700',
+      accentDeep: '#B8860B',
+      background: '#000502',
+      page: '#01140e',
+      floor: '#000502',
+      plinth: '#001a0c',
+      eyes: '#00ff00',
+      sheen: '#ffe77c',
+    },
+    fonts: { display: 'Playfair Display', accent: 'Cinzel' },
+    texts: DEFAULT_TEXTS,
+    lights: { key: '#ffeebf', fill: '#00ff88', accent: '#FFD700', topper: '#FFD700' },
+    bloom: 1.5,
+    tree: {}, // The default tree is the gold one
+  },
+  silver: {
+    name: 'silver',
+    label: 'Silver Frost',
+    palette: {
+      accent: '#e8f4ff',
+      accentDeep: '#8fa8c0',
+      background: '#02060c',
+      page: '#050b14',
+      floor: '#02060c',
+      plinth: '#0d1a26',
+      eyes: '#7fd4ff',
+      sheen: '#d8ecff',
+    },
+    fonts: { display: 'Playfair Display', accent: 'Cinzel' },
+    texts: { ...DEFAULT_TEXTS, kicker: 'The Frost Collection' },
+    lights: { key: '#e8f4ff', fill: '#5ab4ff', accent: '#cfe8ff', topper: '#ffffff' },
+    bloom: 1.7,
+    tree: TREE_PRESETS.silver,
+  },
+  rose: {
+    name: 'rose',
+    label: 'Rose Gold',
+    palette: {
+      accent: '#f7c1a8',
+      accentDeep: '#b76e79',
+      background: '#0a0306',
+      page: '#140609',
+      floor: '#0a0306',
+      plinth: '#1f0a10',
+      eyes: '#ff7fa8',
+      sheen: '#ffcbb5',
+    },
+    fonts: { display: 'Cormorant Garamond', accent: 'Cinzel' },
+    texts: { ...DEFAULT_TEXTS, kicker: 'The Rose Collection' },
+    lights: { key: '#ffe4dc', fill: '#ff6f91', accent: '#f7c1a8', topper: '#f7c1a8' },
+    bloom: 1.4,
+    tree: {
+      foliage: { colors: ['#0f2a22', '#06140f'], tipColor: '#f7c1a8' },
+      ornaments: {
+        ballColors: [
+          { color: '#f7c1a8', weight: 0.6 },
+          { color: '#e8b4b8', weight: 0.25 },
+          { color: '#fff1e6', weight: 0.15 },
+        ],
+        giftColors: [
+          { color: '#f7c1a8', weight: 0.5 },
+          { color: '#7a1f3d', weight: 0.5 },
+        ],
+        earColor: '#f7c1a8',
+      },
+      lights: { colors: ['#ffe4dc', '#f7c1a8', '#ff9eb5'] },
+    },
+  },
+  classic: {
+    name: 'classic',
+    label: 'Classic',
+    palette: {
+      accent: '#ff4d4d',
+      accentDeep: '#a10d0d',
+      background: '#020a04',
+      page: '#03140a',
+      floor: '#020a04',
+      plinth: '#0b2a14',
+      eyes: '#FFD700',
+      sheen: '#ffe77c',
+    },
+    fonts: { display: 'Mountains of Christmas', accent: 'Cinzel' },
+    texts: { ...DEFAULT_TEXTS, kicker: 'A Merry Little Collection' },
+    lights: { key: '#fff1d6', fill: '#3dff8a', accent: '#ff4d4d', topper: '#FFD700' },
+    bloom: 1.3,
+    tree: {
+      foliage: { colors: ['#0b4d1f', '#052a10'], tipColor: '#ffffff', tipRatio: 0.06 },
+      ornaments: {
+        ballColors: [
+          { color: '#d40000', weight: 0.5 },
+          { color: '#FFD700', weight: 0.3 },
+          { color: '#0b7a2f', weight: 0.2 },
+        ],
+        giftColors: [
+          { color: '#d40000', weight: 0.5 },
+          { color: '#0b7a2f', weight: 0.5 },
+        ],
+        earColor: '#d40000',
+      },
+      lights: { colors: ['#ff4d4d', '#3dff8a', '#FFD700', '#5ab4ff', '#fff1c1'] },
+    },
+  },
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export const isThemeName = (value: string): value is ThemeName => value in THEMES;
+
+// --- PERSONALIZATION ---
+const TEXT_PARAMS: (keyof ThemeTexts)[] = ['kicker', 'name', 'title', 'badge'];
+const MAX_TEXT_LENGTH = 60;
+
+/**
+ *   ?theme=rose                    a preset
+ *   ?name=MIA'S&title=WINTER TREE  replace any title text (kicker, name, title, badge)
+ */
+export const loadThemeSettings = (search: string = window.location.search) => {
+  const params = new URLSearchParams(search);
+  const name = params.get('theme');
+  const texts: Partial<ThemeTexts> = {};
+  for (const key of TEXT_PARAMS) {
+    const value = params.get(key);
+    if (value !== null) texts[key] = value.slice(0, MAX_TEXT_LENGTH);
+  }
+  return { name: name && isThemeName(name) ? name : 'gold' as ThemeName, texts };
+};
+
+export const setUrlTheme = (name: ThemeName) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('theme', name);
+  window.history.replaceState(null, '', url);
+};
+
+export const resolveTheme = (name: ThemeName, texts: Partial<ThemeTexts> = {}): Theme => {
+  const theme = THEMES[name];
+  return { ...theme, texts: { ...theme.texts, ...texts } };
+};
+
+// "#FFD700" -> "255 215 0", the form the Tailwind color config expects
+export const hexToRgbChannels = (hex: string) => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const n = parseInt(full, 16);
+  return `${(n >> 16) & 255} ${(n >> 8) & 255} ${n & 255}`;
+};
@@ -0,0 +1,221 @@
+import { MorphTargetName, Vector3Array } from './types';
+import { isMorphTargetName } from './morphTargets';
+import { LightPatternName, isLightPatternName } from './lightPatterns';
+
+// --- CHOREOGRAPHY TIMELINE ---
+// A JSON script for the scene: eased progress and camera keyframes, plus
+// one-shot cues (topper launches, morph targets, light patterns, caption
+// text). Pure data and sampling here; TimelineDriver plays it inside the Canvas.
+
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - (1 - t) ** 3,
+  easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+};
+
+// Easing applies to the segment that ends at this keyframe
+export interface ProgressKey {
+  time: number;
+  value: number; // 0 = formed tree, 1 = chaos
+  easing?: EasingName;
+}
+
+export interface CameraKey {
+  time: number;
+  position: Vector3Array;
+  lookAt: Vector3Array;
+  easing?: EasingName;
+}
+
+export interface TimelineCaption {
+  title: string;
+  subtitle?: string;
+}
+
+export type TimelineCue =
+  | { time: number; type: 'launchTopper' }
+  | { time: number; type: 'morph'; target: MorphTargetName }
+  | { time: number; type: 'lights'; pattern: LightPatternName }
+  | { time: number; type: 'caption'; caption: TimelineCaption | null }; // null clears it
+
+export interface Timeline {
+  version: 1;
+  duration: number; // Seconds
+  progress: ProgressKey[];
+  camera: CameraKey[];
+  cues: TimelineCue[];
+}
+
+export interface TimelineSample {
+  progress: number | null; // null = no progress keys, leave it to live input
+  camera: { position: Vector3Array; lookAt: Vector3Array } | null;
+}
+
+// --- SAMPLING ---
+const segment = <K extends { time: number; easing?: EasingName }>(keys: K[], time: number): [K, K, number] => {
+  const next = keys.findIndex(k => k.time > time);
+  if (next === -1) return [keys[keys.length - 1], keys[keys.length - 1], 0];
+  if (next === 0) return [keys[0], keys[0], 0];
+  const a = keys[next - 1];
+  const b = keys[next];
+  const ease = EASINGS[b.easing ?? 'easeInOut'];
+  return [a, b, ease((time - a.time) / (b.time - a.time))];
+};
+
+const mixVector = (a: Vector3Array, b: Vector3Array, t: number): Vector3Array =>
+  [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+export const sampleTimeline = (timeline: Timeline, time: number): TimelineSample => {
+  let progress: number | null = null;
+  if (timeline.progress.length > 0) {
+    const [a, b, t] = segment(timeline.progress, time);
+    progress = a.value + (b.value - a.value) * t;
+  }
+
+  let camera: TimelineSample['camera'] = null;
+  if (timeline.camera.length > 0) {
+    const [a, b, t] = segment(timeline.camera, time);
+    camera = { position: mixVector(a.position, b.position, t), lookAt: mixVector(a.lookAt, b.lookAt, t) };
+  }
+  return { progress, camera };
+};
+
+/** Cues in (from, to]. A cue at time 0 fires on the first step of each loop. */
+export const cuesBetween = (timeline: Timeline, from: number, to: number) =>
+  timeline.cues.filter(cue => (cue.time > from || (from === 0 && cue.time === 0)) && cue.time <= to);
+
+// --- PARSING ---
+const isVector = (value: unknown): value is Vector3Array =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const checkTime = (where: string, time: unknown, duration: number) => {
+  if (typeof time !== 'number' || time < 0 || time > duration) throw new Error(`${where} needs a time between 0 and ${duration}`);
+};
+
+const checkEasing = (where: string, easing: unknown) => {
+  if (easing !== undefined && !(typeof easing === 'string' && easing in EASINGS)) {
+    throw new Error(`${where} has unknown easing ${JSON.stringify(easing)} (expected ${Object.keys(EASINGS).join(', ')})`);
+  }
+};
+
+const byTime = <T extends { time: number }>(items: T[]) => [...items].sort((a, b) => a.time - b.time);
+
+/** Validates a timeline file. Throws with the first problem found. */
+export const parseTimeline = (json: unknown): Timeline => {
+  const t = json as Partial<Record<keyof Timeline, unknown>> | null;
+  if (!t || typeof t !== 'object') throw new Error('Expected a timeline ({ "duration": 30, "progress": [...], ... })');
+  const duration = t.duration;
+  if (typeof duration !== 'number' || !(duration > 0)) throw new Error('duration must be a positive number of seconds');
+
+  const list = (name: string, value: unknown) => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) throw new Error(`${name} must be an array`);
+    return value as Record<string, unknown>[];
+  };
+
+  const progress = list('progress', t.progress).map((k, i): ProgressKey => {
+    const where = `progress key ${i + 1}`;
+    checkTime(where, k.time, duration);
+    if (typeof k.value !== 'number' || k.value < 0 || k.value > 1) throw new Error(`${where} needs a value between 0 and 1`);
+    checkEasing(where, k.easing);
+    return { time: k.time as number, value: k.value, easing: k.easing as EasingName | undefined };
+  });
+
+  const camera = list('camera', t.camera).map((k, i): CameraKey => {
+    const where = `camera key ${i + 1}`;
+    checkTime(where, k.time, duration);
+    if (!isVector(k.position)) throw new Error(`${where} needs position as [x, y, z]`);
+    const lookAt = k.lookAt ?? [0, 2, 0];
+    if (!isVector(lookAt)) throw new Error(`${where} needs lookAt as [x, y, z]`);
+    checkEasing(where, k.easing);
+    return { time: k.time as number, position: k.position, lookAt, easing: k.easing as EasingName | undefined };
+  });
+
+  const cues = list('cues', t.cues).map((c, i): TimelineCue => {
+    const where = `cue ${i + 1}`;
+    checkTime(where, c.time, duration);
+    const time = c.time as number;
+    switch (c.type) {
+      case 'launchTopper':
+        return { time, type: 'launchTopper' };
+      case 'morph':
+        if (typeof c.target !== 'string' || !isMorphTargetName(c.target)) throw new Error(`${where} has unknown morph target ${JSON.stringify(c.target)}`);
+        return { time, type: 'morph', target: c.target };
+      case 'lights':
+        if (typeof c.pattern !== 'string' || !isLightPatternName(c.pattern)) throw new Error(`${where} has unknown light pattern ${JSON.stringify(c.pattern)}`);
+        return { time, type: 'lights', pattern: c.pattern };
+      case 'caption': {
+        const caption = c.caption as Partial<TimelineCaption> | null | undefined;
+        if (caption === null || caption === undefined) return { time, type: 'caption', caption: null };
+        if (typeof caption.title !== 'string') throw new Error(`${where} needs caption.title (or caption: null to clear)`);
+        if (caption.subtitle !== undefined && typeof caption.subtitle !== 'string') throw new Error(`${where} has a non-text subtitle`);
+        return { time, type: 'caption', caption: { title: caption.title, subtitle: caption.subtitle } };
+      }
+      default:
+        throw new Error(`${where} has unknown type ${JSON.stringify(c.type)} (expected launchTopper, morph, lights, caption)`);
+    }
+  });
+
+  return { version: 1, duration, progress: byTime(progress), camera: byTime(camera), cues: byTime(cues) };
+};
+
+// --- BUILT-IN LOOP ---
+// Used by ?kiosk when no ?timeline= is given
+export const DEFAULT_TIMELINE: Timeline = parseTimeline({
+  duration: 40,
+  progress: [
+    { time: 0, value: 0 },
+    { time: 6, value: 0 },
+    { time: 9, value: 1, easing: 'easeOut' },
+    { time: 17, value: 1 },
+    { time: 22, value: 0, easing: 'easeInOut' },
+    { time: 26, value: 0 },
+    { time: 28, value: 1, easing: 'easeOut' },
+    { time: 34, value: 1 },
+    { time: 38, value: 0, easing: 'easeInOut' },
+  ],
+  camera: [
+    { time: 0, position: [0, 4, 18], lookAt: [0, 2, 0] },
+    { time: 8, position: [8, 6, 14], lookAt: [0, 2, 0] },
+    { time: 18, position: [-6, 10, 16], lookAt: [0, 4, 0] },
+    { time: 28, position: [0, 2, 12], lookAt: [0, 3, 0] },
+    { time: 40, position: [0, 4, 18], lookAt: [0, 2, 0] },
+  ],
+  cues: [
+    { time: 0, type: 'caption', caption: { title: 'Wave to begin', subtitle: 'The tree follows your hand' } },
+    { time: 6, type: 'caption', caption: null },
+    { time: 9, type: 'launchTopper' },
+    { time: 26, type: 'morph', target: 'galaxy' },
+    { time: 39, type: 'morph', target: 'chaos' },
+  ],
+});
+
+// --- LOADING ---
+export interface KioskSettings {
+  timeline: Timeline | null; // null = nothing scripted
+  kiosk: boolean;            // Loop, and return to the loop after idleSeconds without input
+  idleSeconds: number;
+}
+
+/**
+ *   ?timeline=/timelines/show.json  plays a timeline once (or inline JSON)
+ *   ?kiosk                          loops it (the built-in one if none is given)
+ *   ?kiosk=60                       ...and returns to it after 60 s without input (default 30)
+ */
+export const loadKioskSettings = async (search: string = window.location.search): Promise<KioskSettings> => {
+  const params = new URLSearchParams(search);
+  const kiosk = params.has('kiosk');
+  const idle = Number(params.get('kiosk'));
+  const idleSeconds = Number.isFinite(idle) && idle > 0 ? idle : 30;
+
+  const source = params.get('timeline');
+  if (!source) return { timeline: kiosk ? DEFAULT_TIMELINE : null, kiosk, idleSeconds };
+
+  if (source.trim().startsWith('{')) return { timeline: parseTimeline(JSON.parse(source)), kiosk, idleSeconds };
+  const response = await fetch(source);
+  if (!response.ok) throw new Error(`Could not load timeline from ${source} (${response.status} ${response.statusText})`);
+  return { timeline: parseTimeline(await response.json()), kiosk, idleSeconds };
+};
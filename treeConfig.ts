@@ -0,0 +1,309 @@
+import { PartialTreeConfig, TreeConfig, WeightedColor } from './types';
+import { HEX_COLOR } from './colors';
+
+// --- DEFAULT TREE ---
+// The original hand-tuned tree. Every preset and loaded file is merged on top of this.
+export const DEFAULT_TREE_CONFIG: TreeConfig = {
+  shape: {
+    height: 9,
+    apexHeight: 9.5,
+    baseRadius: 3.5,
+  },
+  foliage: {
+    count: 12000,
+    colors: ['#003318', '#001a0c'], // Emerald, dark green
+    tipColor: '#FFD700',
+    tipRatio: 0.1,
+    chaosSpread: 25,
+    chaosLift: 5,
+  },
+  ornaments: {
+    count: 300,
+    fillHeight: 8.5,
+    offset: 0.2,
+    spiralTurns: 10,
+    minScale: 0.1,
+    maxScale: 0.4,
+    giftRatio: 0.1, // 90% Cats!
+    ballColors: [
+      { color: '#FFD700', weight: 0.7 },
+      { color: '#b8860b', weight: 0.15 },
+      { color: '#e6e6e6', weight: 0.15 },
+    ],
+    giftColors: [
+      { color: '#FFD700', weight: 0.5 },
+      { color: '#d40000', weight: 0.5 },
+    ],
+    earColor: '#FFD700',
+    chaosSpread: 30,
+  },
+  lights: {
+    count: 240,
+    strands: 2,
+    offset: 0.35,
+    bulbSize: 0.06,
+    colors: ['#fff1c1', '#FFD700', '#ff4d4d', '#3dff8a', '#5ab4ff'],
+    chaosSpread: 28,
+  },
+  guardians: {
+    count: 3,
+    radius: 4.5,
+    arc: 360,
+    startAngle: 0,
+  },
+};
+
+// --- PRESETS ---
+export const TREE_PRESETS: Record<string, PartialTreeConfig> = {
+  classic: {},
+  slim: {
+    shape: { height: 10, apexHeight: 10.3, baseRadius: 2.2 },
+    foliage: { count: 8000 },
+    ornaments: { count: 180, fillHeight: 9.5 },
+    guardians: { radius: 3.5 },
+  },
+  huge: {
+    shape: { height: 12, apexHeight: 12.6, baseRadius: 5 },
+    foliage: { count: 30000, chaosSpread: 35 },
+    ornaments: { count: 700, fillHeight: 11.5, spiralTurns: 14, chaosSpread: 40 },
+    lights: { count: 480, strands: 3, chaosSpread: 38 },
+    guardians: { count: 5, radius: 6.5 },
+  },
+  silver: {
+    foliage: { colors: ['#0d2a2a', '#061616'], tipColor: '#e8f4ff', tipRatio: 0.15 },
+    ornaments: {
+      ballColors: [
+        { color: '#e6e6e6', weight: 0.6 },
+        { color: '#a8c8e8', weight: 0.25 },
+        { color: '#ffffff', weight: 0.15 },
+      ],
+      giftColors: [
+        { color: '#e6e6e6', weight: 0.5 },
+        { color: '#4a6a8a', weight: 0.5 },
+      ],
+      earColor: '#e6e6e6',
+    },
+    lights: { colors: ['#ffffff', '#e8f4ff', '#a8c8e8'] },
+  },
+};
+
+export class TreeConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid tree config:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'TreeConfigError';
+    this.issues = issues;
+  }
+}
+
+const SECTIONS: (keyof TreeConfig)[] = ['shape', 'foliage', 'ornaments', 'lights', 'guardians'];
+
+export const mergeTreeConfig = (base: TreeConfig, patch: PartialTreeConfig): TreeConfig => ({
+  shape: { ...base.shape, ...patch.shape },
+  foliage: { ...base.foliage, ...patch.foliage },
+  ornaments: { ...base.ornaments, ...patch.ornaments },
+  lights: { ...base.lights, ...patch.lights },
+  guardians: { ...base.guardians, ...patch.guardians },
+});
+
+// --- VALIDATION ---
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a fully merged config and returns it typed. All problems are collected
+ * so a broken config file can be fixed in one pass.
+ */
+export const validateTreeConfig = (input: unknown): TreeConfig => {
+  const issues: string[] = [];
+
+  if (!isObject(input)) {
+    throw new TreeConfigError([`config must be an object (got ${JSON.stringify(input)})`]);
+  }
+
+  const section = (name: keyof TreeConfig) => {
+    const value = input[name];
+    if (!isObject(value)) {
+      issues.push(`${name} must be an object`);
+      return {};
+    }
+    return value;
+  };
+
+  const number = (path: string, value: unknown, { min = -Infinity, max = Infinity, integer = false } = {}) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${path} must be a number (got ${JSON.stringify(value)})`);
+    } else if (integer && !Number.isInteger(value)) {
+      issues.push(`${path} must be an integer (got ${value})`);
+    } else if (value < min || value > max) {
+      issues.push(`${path} must be between ${min} and ${max} (got ${value})`);
+    }
+  };
+
+  const color = (path: string, value: unknown) => {
+    if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+      issues.push(`${path} must be a hex color like "#FFD700" (got ${JSON.stringify(value)})`);
+    }
+  };
+
+  const weightedColors = (path: string, value: unknown) => {
+    if (!Array.isArray(value) || value.length === 0) {
+      issues.push(`${path} must be a non-empty array of { color, weight }`);
+      return;
+    }
+    value.forEach((entry, i) => {
+      if (!isObject(entry)) {
+        issues.push(`${path}[${i}] must be an object with color and weight`);
+        return;
+      }
+      color(`${path}[${i}].color`, entry.color);
+      number(`${path}[${i}].weight`, entry.weight, { min: 0 });
+    });
+    if (value.every(entry => isObject(entry) && entry.weight === 0)) {
+      issues.push(`${path} needs at least one entry with a weight above 0`);
+    }
+  };
+
+  for (const key of Object.keys(input)) {
+    if (!SECTIONS.includes(key as keyof TreeConfig)) {
+      issues.push(`unknown section "${key}" (expected one of ${SECTIONS.join(', ')})`);
+    }
+  }
+
+  const shape = section('shape');
+  number('shape.height', shape.height, { min: 0.1 });
+  number('shape.apexHeight', shape.apexHeight, { min: 0.1 });
+  number('shape.baseRadius', shape.baseRadius, { min: 0.1 });
+  if (typeof shape.height === 'number' && typeof shape.apexHeight === 'number' && shape.apexHeight < shape.height) {
+    issues.push(`shape.apexHeight (${shape.apexHeight}) must not be below shape.height (${shape.height})`);
+  }
+
+  const foliage = section('foliage');
+  number('foliage.count', foliage.count, { min: 1, max: 200000, integer: true });
+  if (!Array.isArray(foliage.colors) || foliage.colors.length === 0) {
+    issues.push('foliage.colors must be a non-empty array of hex colors');
+  } else {
+    foliage.colors.forEach((c, i) => color(`foliage.colors[${i}]`, c));
+  }
+  color('foliage.tipColor', foliage.tipColor);
+  number('foliage.tipRatio', foliage.tipRatio, { min: 0, max: 1 });
+  number('foliage.chaosSpread', foliage.chaosSpread, { min: 0 });
+  number('foliage.chaosLift', foliage.chaosLift);
+
+  const ornaments = section('ornaments');
+  number('ornaments.count', ornaments.count, { min: 0, max: 20000, integer: true });
+  number('ornaments.fillHeight', ornaments.fillHeight, { min: 0 });
+  number('ornaments.offset', ornaments.offset);
+  number('ornaments.spiralTurns', ornaments.spiralTurns, { min: 0 });
+  number('ornaments.minScale', ornaments.minScale, { min: 0 });
+  number('ornaments.maxScale', ornaments.maxScale, { min: 0 });
+  if (typeof ornaments.minScale === 'number' && typeof ornaments.maxScale === 'number' && ornaments.maxScale < ornaments.minScale) {
+    issues.push(`ornaments.maxScale (${ornaments.maxScale}) must not be below ornaments.minScale (${ornaments.minScale})`);
+  }
+  number('ornaments.giftRatio', ornaments.giftRatio, { min: 0, max: 1 });
+  weightedColors('ornaments.ballColors', ornaments.ballColors);
+  weightedColors('ornaments.giftColors', ornaments.giftColors);
+  color('ornaments.earColor', ornaments.earColor);
+  number('ornaments.chaosSpread', ornaments.chaosSpread, { min: 0 });
+
+  const lights = section('lights');
+  number('lights.count', lights.count, { min: 0, max: 5000, integer: true });
+  number('lights.strands', lights.strands, { min: 1, max: 12, integer: true });
+  number('lights.offset', lights.offset);
+  number('lights.bulbSize', lights.bulbSize, { min: 0 });
+  if (!Array.isArray(lights.colors) || lights.colors.length === 0) {
+    issues.push('lights.colors must be a non-empty array of hex colors');
+  } else {
+    lights.colors.forEach((c, i) => color(`lights.colors[${i}]`, c));
+  }
+  number('lights.chaosSpread', lights.chaosSpread, { min: 0 });
+
+  const guardians = section('guardians');
+  number('guardians.count', guardians.count, { min: 0, max: 12, integer: true });
+  number('guardians.radius', guardians.radius, { min: 0 });
+  number('guardians.arc', guardians.arc, { min: 0, max: 360 });
+  number('guardians.startAngle', guardians.startAngle);
+
+  if (issues.length > 0) {
+    throw new TreeConfigError(issues);
+  }
+  return input as unknown as TreeConfig;
+};
+
+/** Merges a partial config (e.g. parsed from a JSON file) over a base and validates the result. */
+export const resolveTreeConfig = (patch: unknown, base: TreeConfig = DEFAULT_TREE_CONFIG): TreeConfig => {
+  if (!isObject(patch)) {
+    throw new TreeConfigError([`config must be an object (got ${JSON.stringify(patch)})`]);
+  }
+  for (const key of SECTIONS) {
+    if (patch[key] !== undefined && !isObject(patch[key])) {
+      throw new TreeConfigError([`${key} must be an object`]);
+    }
+  }
+  const merged = { ...patch, ...mergeTreeConfig(base, patch as PartialTreeConfig) };
+  return validateTreeConfig(merged);
+};
+
+// --- LOADING ---
+export const fetchTreeConfig = async (url: string, base?: TreeConfig): Promise<TreeConfig> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load tree config from ${url} (${response.status} ${response.statusText})`);
+  }
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch (e) {
+    throw new Error(`Tree config at ${url} is not valid JSON`);
+  }
+  return resolveTreeConfig(json, base);
+};
+
+/**
+ * Builds the tree config from URL parameters:
+ *   ?tree=slim               a built-in preset
+ *   ?config=/trees/big.json  a JSON file (merged over the preset, if any)
+ *   ?config={"foliage":...}  inline JSON
+ * `start` is what the preset and file are merged over (the theme's tree).
+ */
+export const loadTreeConfig = async (
+  search: string = window.location.search,
+  start: TreeConfig = DEFAULT_TREE_CONFIG,
+): Promise<TreeConfig> => {
+  const params = new URLSearchParams(search);
+  let base = start;
+
+  const presetName = params.get('tree');
+  if (presetName) {
+    const preset = TREE_PRESETS[presetName];
+    if (!preset) {
+      throw new Error(`Unknown tree preset "${presetName}" (expected one of ${Object.keys(TREE_PRESETS).join(', ')})`);
+    }
+    base = resolveTreeConfig(preset, start);
+  }
+
+  const source = params.get('config');
+  if (!source) return base;
+
+  if (source.trim().startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(source);
+    } catch (e) {
+      throw new Error('Inline tree config in ?config= is not valid JSON');
+    }
+    return resolveTreeConfig(json, base);
+  }
+  return fetchTreeConfig(source, base);
+};
+
+export const pickWeighted = (colors: WeightedColor[], roll: number): string => {
+  const total = colors.reduce((sum, c) => sum + c.weight, 0);
+  let threshold = roll * total;
+  for (const entry of colors) {
+    threshold -= entry.weight;
+    if (threshold < 0) return entry.color;
+  }
+  return colors[colors.length - 1].color;
+};
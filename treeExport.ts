@@ -0,0 +1,303 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { CustomOrnament, MorphTargetName, OrnamentType, TreeConfig } from './types';
+import { Theme } from './theme';
+import { GUARDIAN_UNLEASHED, generateFoliage, generateGuardians, generateOrnaments, toFoliageBuffers, topperHeights } from './treeGenerator';
+import { generateMorphTarget, treeMorphOptions } from './morphTargets';
+import { DEFAULT_SCENE_TUNING, FoliageEasing, FoliageTuning } from './sceneTuning';
+import { starGeometry } from './CustomOrnaments';
+import { deriveRng } from './random';
+
+// --- MODEL EXPORT ---
+// Rebuilds the generated tree as plain meshes, posed at any progress, for
+// GLB (with materials) or OBJ. The live scene animates in its shaders, so it
+// can't be exported as is; the poses below follow those shaders, the topper
+// follows LuxuryTree.tsx, personal ornaments follow CustomOrnaments.tsx and
+// the guardians sit as at rest in GuardianCats.tsx. Time-driven motion (noise,
+// sway, spin, float) is left out.
+
+export type ExportFormat = 'glb' | 'obj';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  progress: number;      // 0 = formed tree, 1 = chaos
+  solidFoliage: boolean; // Needles as small solids instead of points, for printing
+}
+
+// What the live scene shows on top of the config and seed
+export interface ExportScene {
+  morphTarget: MorphTargetName; // Where the tree flies to
+  morphText?: string;
+  ornamentShare: number;        // 0..1 share of the generated ornaments hung (advent calendar)
+  customOrnaments: CustomOrnament[];
+  foliage: FoliageTuning;       // Easing and stagger of each needle's trip
+}
+
+export const DEFAULT_EXPORT_SCENE: ExportScene = {
+  morphTarget: 'chaos',
+  ornamentShare: 1,
+  customOrnaments: [],
+  foliage: DEFAULT_SCENE_TUNING.foliage,
+};
+
+const NEEDLE_RADIUS = 0.12; // Solid needles overlap their neighbours into one mass
+const CUSTOM_ORNAMENT_SCALE = 0.35;
+
+const clamp01 = (p: number) => Math.min(Math.max(p, 0), 1);
+
+const smootherstep = (p: number) => p * p * p * (p * (p * 6 - 15) + 10);
+
+// The foliage shader's ease()
+const EASINGS: Record<FoliageEasing, (p: number) => number> = {
+  linear: p => p,
+  cubic: p => (p < 0.5 ? 4 * p * p * p : 1 - Math.pow(2 - 2 * p, 3) * 0.5),
+  smootherstep,
+  expoOut: p => (p >= 1 ? 1 : 1 - Math.pow(2, -10 * p)),
+  backOut: p => { const q = p - 1; return 1 + 2.70158 * q * q * q + 1.70158 * q * q; },
+};
+
+// The foliage shader's waveOrder(): 0..1, when a needle's turn comes
+const waveOrder = (config: TreeConfig, foliage: FoliageTuning, x: number, y: number, z: number, speed: number) => {
+  const height = clamp01(y / config.shape.height + 0.5);
+  const order = foliage.wave === 'topDown' ? 1 - height : foliage.wave === 'centerOut' ? clamp01(Math.hypot(x, z) / config.shape.baseRadius) : height;
+  return order * 0.85 + speed * 0.15;
+};
+
+const destinations = (config: TreeConfig, seed: number, scene: ExportScene, count: number, chaos: Float32Array, stream: string) =>
+  scene.morphTarget === 'chaos'
+    ? chaos
+    : generateMorphTarget(scene.morphTarget, count, deriveRng(seed, `${stream}-${scene.morphTarget}`), treeMorphOptions(config, scene.morphText));
+
+const standard = (color: THREE.ColorRepresentation, metalness: number, roughness: number, emissive?: THREE.ColorRepresentation) =>
+  new THREE.MeshStandardMaterial({ color, metalness, roughness, ...(emissive ? { emissive, emissiveIntensity: 1 } : {}) });
+
+const buildFoliage = (config: TreeConfig, seed: number, scene: ExportScene, t: number, solid: boolean) => {
+  const data = toFoliageBuffers(generateFoliage(config, deriveRng(seed, 'foliage')));
+  const destination = destinations(config, seed, scene, data.speeds.length, data.chaosPositions, 'morph');
+  const stagger = Math.min(Math.max(scene.foliage.stagger, 0), 0.9);
+  const ease = EASINGS[scene.foliage.easing];
+  const positions = new Float32Array(data.positions.length);
+  const colors = new Float32Array(data.colors.length);
+  for (let n = 0; n < data.speeds.length; n++) {
+    const i = n * 3;
+    const [x, y, z] = data.positions.subarray(i, i + 3);
+    const delay = stagger * waveOrder(config, scene.foliage, x, y, z, data.speeds[n]);
+    const p = ease(clamp01((t - delay) / (1 - stagger)));
+    for (let k = 0; k < 3; k++) {
+      positions[i + k] = data.positions[i + k] + (destination[i + k] - data.positions[i + k]) * p;
+      colors[i + k] = data.colors[i + k] * (1 - p * 0.3); // Darker in chaos, as on screen
+    }
+  }
+
+  if (!solid) {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    const points = new THREE.Points(geometry, new THREE.PointsMaterial({ size: 0.05, vertexColors: true }));
+    points.name = 'foliage';
+    return points;
+  }
+
+  // One octahedron per needle, colored per vertex
+  const needle = new THREE.OctahedronGeometry(NEEDLE_RADIUS);
+  const vertsPerNeedle = needle.getAttribute('position').count;
+  const needles = Array.from({ length: positions.length / 3 }, (_, i) => {
+    const g = needle.clone().translate(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+    const vertexColors = new Float32Array(vertsPerNeedle * 3);
+    for (let v = 0; v < vertsPerNeedle; v++) vertexColors.set(colors.subarray(i * 3, i * 3 + 3), v * 3);
+    g.setAttribute('color', new THREE.BufferAttribute(vertexColors, 3));
+    return g;
+  });
+  const mesh = new THREE.Mesh(mergeGeometries(needles), new THREE.MeshStandardMaterial({ vertexColors: true, roughness: 0.6 }));
+  mesh.name = 'foliage';
+  return mesh;
+};
+
+const buildOrnaments = (config: TreeConfig, seed: number, scene: ExportScene, t: number) => {
+  const group = new THREE.Group();
+  group.name = 'ornaments';
+  const p = smootherstep(clamp01(t));
+  const materials = new Map<string, THREE.Material>();
+  const material = (key: string, make: () => THREE.Material) => {
+    if (!materials.has(key)) materials.set(key, make());
+    return materials.get(key)!;
+  };
+  const earMaterial = standard(config.ornaments.earColor, 1, 1);
+
+  const ornaments = generateOrnaments(config, deriveRng(seed, 'ornaments'));
+  const chaos = new Float32Array(ornaments.length * 3);
+  ornaments.forEach((o, i) => chaos.set(o.position.chaos, i * 3));
+  const destination = destinations(config, seed, scene, ornaments.length, chaos, 'ornament-morph');
+  // OrnamentSystem hangs the first share of each kind
+  const hung = (type: OrnamentType) => Math.ceil(ornaments.filter(o => o.type === type).length * scene.ornamentShare);
+  const limits: Record<OrnamentType, number> = { ball: hung('ball'), gift: hung('gift') };
+  const seen: Record<OrnamentType, number> = { ball: 0, gift: 0 };
+
+  ornaments.forEach((o, i) => {
+    if (seen[o.type]++ >= limits[o.type]) return;
+    const { target } = o.position;
+    const to = destination.subarray(i * 3, i * 3 + 3);
+    const item = new THREE.Group();
+    item.name = `${o.type}-${i}`;
+    item.position.set(
+      target[0] + (to[0] - target[0]) * p,
+      target[1] + (to[1] - target[1]) * p,
+      target[2] + (to[2] - target[2]) * p,
+    );
+    item.scale.setScalar(o.size);
+    if (o.type === 'gift') {
+      item.add(new THREE.Mesh(new THREE.BoxGeometry(), material(`gift-${o.color}`, () => standard(o.color, 0.8, 0.2))));
+    } else {
+      // Cat head bauble and ears, as in OrnamentSystem
+      item.add(new THREE.Mesh(new THREE.SphereGeometry(1, 16, 16), material(`ball-${o.color}`, () => standard(o.color, 1, 0.1))));
+      [-1, 1].forEach(side => {
+        const ear = new THREE.Mesh(new THREE.ConeGeometry(0.3, 0.6, 16), earMaterial);
+        ear.position.set(side * 0.4, 0.6, 0);
+        ear.rotation.z = -side * 0.4;
+        item.add(ear);
+      });
+    }
+    group.add(item);
+  });
+  return group;
+};
+
+const buildCustomOrnaments = (ornaments: CustomOrnament[], theme: Theme, t: number) => {
+  const group = new THREE.Group();
+  group.name = 'personal-ornaments';
+  const p = smootherstep(clamp01(t));
+  const ribbon = standard(theme.palette.accent, 1, 0.2);
+
+  ornaments.forEach((o, i) => {
+    const { target, chaos } = o.position;
+    const item = new THREE.Group();
+    item.name = `${o.shape}-${i}`;
+    item.position.set(
+      target[0] + (chaos[0] - target[0]) * p,
+      target[1] + (chaos[1] - target[1]) * p,
+      target[2] + (chaos[2] - target[2]) * p,
+    );
+    item.scale.setScalar(CUSTOM_ORNAMENT_SCALE);
+    if (o.shape === 'gift') {
+      item.add(
+        new THREE.Mesh(new THREE.BoxGeometry(1.4, 1.4, 1.4), standard(o.color, 0.8, 0.2)),
+        new THREE.Mesh(new THREE.BoxGeometry(1.45, 1.45, 0.25), ribbon),
+        new THREE.Mesh(new THREE.BoxGeometry(0.25, 1.45, 1.45), ribbon),
+      );
+    } else if (o.shape === 'star') {
+      const star = new THREE.MeshStandardMaterial({ color: o.color, emissive: o.color, emissiveIntensity: 0.6, metalness: 0.9, roughness: 0.15 });
+      item.add(new THREE.Mesh(starGeometry.clone(), star));
+    } else {
+      const gold = standard(o.color, 1, 0.1);
+      item.add(new THREE.Mesh(new THREE.SphereGeometry(1, 24, 24), gold));
+      [-1, 1].forEach(side => {
+        const ear = new THREE.Mesh(new THREE.ConeGeometry(0.3, 0.6, 16), gold);
+        ear.position.set(side * 0.4, 0.6, 0);
+        ear.rotation.z = -side * 0.4;
+        item.add(ear);
+      });
+    }
+    group.add(item);
+  });
+  return group;
+};
+
+const buildTopper = (config: TreeConfig, theme: Theme, t: number) => {
+  const color = theme.lights.topper;
+  const heights = topperHeights(config);
+  const topper = new THREE.Group();
+  topper.name = 'topper';
+  topper.position.y = THREE.MathUtils.lerp(heights.rest, heights.chaos, t);
+  topper.scale.setScalar(THREE.MathUtils.lerp(1, 2, t));
+  topper.add(new THREE.Mesh(new THREE.SphereGeometry(0.6, 32, 32), standard(color, 0, 1, color)));
+  const halo = new THREE.Mesh(new THREE.TorusGeometry(1, 0.05, 16, 64), standard('white', 0, 1, 'white'));
+  halo.rotation.x = Math.PI / 2;
+  topper.add(halo);
+  [-1, 1].forEach(side => {
+    const ear = new THREE.Mesh(new THREE.ConeGeometry(0.25, 0.6, 32), standard(color, 0, 1, color));
+    ear.position.set(side * 0.3, 0.5, 0);
+    ear.rotation.z = -side * 0.3;
+    topper.add(ear);
+  });
+  return topper;
+};
+
+const buildGuardians = (config: TreeConfig, theme: Theme, t: number) => {
+  const group = new THREE.Group();
+  group.name = 'guardians';
+  group.scale.setScalar(1 + t * GUARDIAN_UNLEASHED.growth);
+  const spread = 1 + t * GUARDIAN_UNLEASHED.spread;
+  const gold = standard(theme.palette.accent, 0.95, 0.05);
+  const eyes = standard(theme.palette.eyes, 0, 1, theme.palette.eyes);
+  const plinth = standard(theme.palette.plinth, 0.5, 0.5);
+
+  generateGuardians(config).forEach((g, i) => {
+    const cat = new THREE.Group();
+    cat.name = `guardian-${i}`;
+    cat.position.set(g.x * spread, -4.5, g.z * spread);
+    cat.rotation.y = g.rot;
+
+    const body = new THREE.Mesh(new THREE.CylinderGeometry(0.6, 1.0, 3, 32), gold);
+    body.position.y = 1.5;
+    const head = new THREE.Mesh(new THREE.SphereGeometry(0.7, 32, 32), gold);
+    head.position.set(0, 3.2, 0.4);
+    [-1, 1].forEach(side => {
+      const ear = new THREE.Mesh(new THREE.ConeGeometry(0.2, 0.7, 32), gold);
+      ear.position.set(side * 0.3, 0.6, 0);
+      ear.rotation.z = -side * 0.5;
+      const eye = new THREE.Mesh(new THREE.SphereGeometry(0.1, 16, 16), eyes);
+      eye.position.set(side * 0.2, 0.1, 0.6);
+      head.add(ear, eye);
+    });
+    // Tail at rest: a chain of segments, each curling up from the last
+    const tail = new THREE.Group();
+    tail.position.set(0, 0.25, -0.85);
+    let joint = tail;
+    for (let k = 0; k < 5; k++) {
+      const next = new THREE.Group();
+      next.position.y = k === 0 ? 0 : 0.35;
+      next.rotation.x = k === 0 ? -1.25 : 0.35;
+      const segment = new THREE.Mesh(new THREE.CylinderGeometry(0.09 - k * 0.01, 0.1 - k * 0.01, 0.35, 12), gold);
+      segment.position.y = 0.175;
+      next.add(segment);
+      joint.add(next);
+      joint = next;
+    }
+    const base = new THREE.Mesh(new THREE.BoxGeometry(2.5, 0.4, 2.5), plinth);
+    base.position.y = -0.2;
+    cat.add(body, head, tail, base);
+    group.add(cat);
+  });
+  return group;
+};
+
+/** The generated tree as a plain scene graph, in tree space (printable exports stand on y = 0). */
+export const buildTreeModel = (config: TreeConfig, seed: number, theme: Theme, options: ExportOptions, scene: ExportScene = DEFAULT_EXPORT_SCENE) => {
+  const t = clamp01(options.progress);
+  const root = new THREE.Group();
+  root.name = 'tree';
+  root.add(
+    buildFoliage(config, seed, scene, t, options.solidFoliage),
+    buildOrnaments(config, seed, scene, t),
+    buildCustomOrnaments(scene.customOrnaments, theme, t),
+    buildTopper(config, theme, t),
+    buildGuardians(config, theme, t),
+  );
+  if (options.solidFoliage) {
+    root.updateMatrixWorld(true);
+    root.position.y = -new THREE.Box3().setFromObject(root).min.y;
+  }
+  root.updateMatrixWorld(true);
+  return root;
+};
+
+export const exportTreeModel = async (config: TreeConfig, seed: number, theme: Theme, options: ExportOptions, scene: ExportScene = DEFAULT_EXPORT_SCENE): Promise<Blob> => {
+  const model = buildTreeModel(config, seed, theme, options, scene);
+  if (options.format === 'obj') {
+    return new Blob([new OBJExporter().parse(model)], { type: 'model/obj' });
+  }
+  const glb = await new GLTFExporter().parseAsync(model, { binary: true });
+  return new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' });
+};
@@ -0,0 +1,176 @@
+import { Color, MathUtils } from 'three';
+import { DualPose, OrnamentData, ParticleData, TreeConfig } from './types';
+import { pickWeighted } from './treeConfig';
+import { Rng } from './random';
+
+// --- PURE TREE GENERATION ---
+// No React, no scene graph: config + rng in, particle data out.
+// The same seed always yields the same particles.
+
+export interface GuardianPlacement {
+  x: number;
+  z: number;
+  rot: number;
+}
+
+// Radius of the foliage cone at a given height above the base
+export const coneRadiusAt = (config: TreeConfig, h: number) =>
+  config.shape.baseRadius * (1 - h / config.shape.apexHeight);
+
+export const generateFoliage = (config: TreeConfig, rng: Rng): ParticleData[] => {
+  const { shape, foliage } = config;
+  const particles: ParticleData[] = [];
+
+  for (let i = 0; i < foliage.count; i++) {
+    // TARGET: CONE SHAPE
+    const h = rng() * shape.height;
+    const rBase = coneRadiusAt(config, h);
+    const theta = rng() * Math.PI * 2;
+    // Add volume to the branches
+    const r = rBase * Math.sqrt(rng());
+
+    // CHAOS: SPHERICAL EXPLOSION
+    // Explode outwards, but bias towards the top
+    const cx = (rng() - 0.5) * foliage.chaosSpread;
+    const cy = (rng() - 0.5) * foliage.chaosSpread + foliage.chaosLift;
+    const cz = (rng() - 0.5) * foliage.chaosSpread;
+
+    // COLOR
+    const isTip = rng() < foliage.tipRatio;
+    const color = isTip ? foliage.tipColor : foliage.colors[Math.floor(rng() * foliage.colors.length)];
+
+    particles.push({
+      position: {
+        target: [r * Math.cos(theta), h - shape.height / 2, r * Math.sin(theta)], // Center vertically
+        chaos: [cx, cy, cz],
+      },
+      color,
+      size: 1,
+      speed: rng(),
+      tip: isTip,
+    });
+  }
+  return particles;
+};
+
+export const generateOrnaments = (config: TreeConfig, rng: Rng): OrnamentData[] => {
+  const { shape, ornaments } = config;
+  const items: OrnamentData[] = [];
+
+  for (let i = 0; i < ornaments.count; i++) {
+    // Target
+    const h = rng() * ornaments.fillHeight;
+    const r = coneRadiusAt(config, h) + ornaments.offset; // Slightly outside foliage
+    const theta = rng() * Math.PI * 2 * ornaments.spiralTurns; // Spiral
+
+    // Chaos
+    const cx = (rng() - 0.5) * ornaments.chaosSpread;
+    const cy = (rng() - 0.5) * ornaments.chaosSpread;
+    const cz = (rng() - 0.5) * ornaments.chaosSpread;
+
+    const size = rng() * (ornaments.maxScale - ornaments.minScale) + ornaments.minScale;
+    const speed = rng() * 0.5 + 0.5; // Parallax effect
+    const rotSpeed = rng() * 2;
+    const type = rng() < ornaments.giftRatio ? 'gift' : 'ball';
+    const color = pickWeighted(type === 'gift' ? ornaments.giftColors : ornaments.ballColors, rng());
+
+    items.push({
+      position: {
+        target: [r * Math.cos(theta), h - shape.height / 2, r * Math.sin(theta)],
+        chaos: [cx, cy, cz],
+      },
+      color,
+      size,
+      speed,
+      rotSpeed,
+      type,
+    });
+  }
+  return items;
+};
+
+export interface LightBulb {
+  position: DualPose;
+  strand: number;
+  u: number; // 0 at the bottom of its strand, 1 at the top
+}
+
+// String lights follow the ornament spiral, evenly spaced along each strand
+export const generateLights = (config: TreeConfig, rng: Rng): LightBulb[] => {
+  const { shape, ornaments, lights } = config;
+  const perStrand = Math.ceil(lights.count / lights.strands);
+  const bulbs: LightBulb[] = [];
+
+  for (let i = 0; i < lights.count; i++) {
+    const strand = i % lights.strands;
+    const u = perStrand > 1 ? Math.floor(i / lights.strands) / (perStrand - 1) : 0;
+    const h = u * ornaments.fillHeight;
+    const r = coneRadiusAt(config, h) + lights.offset;
+    const theta = u * Math.PI * 2 * ornaments.spiralTurns + (strand / lights.strands) * Math.PI * 2;
+
+    bulbs.push({
+      position: {
+        target: [r * Math.cos(theta), h - shape.height / 2, r * Math.sin(theta)],
+        chaos: [(rng() - 0.5) * lights.chaosSpread, (rng() - 0.5) * lights.chaosSpread, (rng() - 0.5) * lights.chaosSpread],
+      },
+      strand,
+      u,
+    });
+  }
+  return bulbs;
+};
+
+// The topper sits just above the cone's apex and flies well clear of it when unleashed
+export const topperHeights = (config: TreeConfig) => {
+  const rest = config.shape.apexHeight - config.shape.height / 2 + 0.5; // Same centering as the needles
+  return { rest, chaos: rest + 9.5 };
+};
+
+// When unleashed the guardians slide outward (spread) and grow to make room
+export const GUARDIAN_UNLEASHED = { spread: 0.5, growth: 0.2 };
+
+// Guardians sit evenly along an arc around the base, facing outward. A full
+// circle spaces them like a clock; a partial arc puts one at each end
+export const generateGuardians = (config: TreeConfig): GuardianPlacement[] => {
+  const { count, radius, arc, startAngle } = config.guardians;
+  const full = arc >= 360;
+  return Array.from({ length: count }, (_, i) => {
+    const share = full ? i / count : count === 1 ? 0.5 : i / (count - 1);
+    const angle = MathUtils.degToRad(startAngle + share * arc);
+    return {
+      x: Math.cos(angle) * radius,
+      z: Math.sin(angle) * radius,
+      rot: -angle + Math.PI / 2,
+    };
+  });
+};
+
+// Packs particles into the flat typed arrays the foliage shader reads
+export const toFoliageBuffers = (particles: ParticleData[]) => {
+  const count = particles.length;
+  const positions = new Float32Array(count * 3);
+  const chaosPositions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const speeds = new Float32Array(count);
+  const tips = new Float32Array(count);
+  const colorCache = new Map<string, Color>();
+
+  particles.forEach((p, i) => {
+    positions.set(p.position.target, i * 3);
+    chaosPositions.set(p.position.chaos, i * 3);
+
+    let c = colorCache.get(p.color);
+    if (!c) {
+      c = new Color(p.color);
+      colorCache.set(p.color, c);
+    }
+    colors[i * 3] = c.r;
+    colors[i * 3 + 1] = c.g;
+    colors[i * 3 + 2] = c.b;
+
+    speeds[i] = p.speed;
+    tips[i] = p.tip ? 1 : 0;
+  });
+
+  return { positions, chaosPositions, colors, speeds, tips };
+};
@@ -10,6 +10,155 @@ export interface ParticleData {
   color: string;
   size: number;
   speed: number;
+  tip?: boolean; // Foliage needles in the tip color (they twinkle)
 }
 
-export type GestureState = 'IDLE' | 'UNLEASHED';
+export type OrnamentType = 'ball' | 'gift';
+
+export interface OrnamentData extends ParticleData {
+  type: OrnamentType;
+  rotSpeed: number;
+}
+
+// Ornaments hung by visitors (persisted, so no seeded generation)
+export type CustomOrnamentShape = 'cat' | 'gift' | 'star';
+
+export interface CustomOrnament {
+  id: string;
+  shape: CustomOrnamentShape;
+  color: string;
+  message: string;
+  position: DualPose;
+  createdAt: string;
+}
+
+// --- GESTURES ---
+export type GestureState = 'IDLE' | 'TRACKING' | 'HOLDING' | 'UNLEASHED';
+
+// One frame of motion analysis, in screen space (x right, y down, both -1..1)
+export interface MotionFrame {
+  time: number;   // ms
+  energy: number; // 0..1
+  cx: number;
+  cy: number;
+}
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export type GestureEvent =
+  | { type: 'state'; state: GestureState; previous: GestureState; time: number }
+  | { type: 'swipe'; direction: SwipeDirection; time: number }
+  | { type: 'push'; time: number }
+  | { type: 'wave'; time: number }
+  | { type: 'hold'; time: number };
+
+// Formations the unleashed tree can fly into ('chaos' is the random explosion)
+export type MorphTargetName = 'chaos' | 'galaxy' | 'heart' | 'star' | 'ring' | 'text';
+
+// --- TREE CONFIG ---
+// Everything LuxuryTree needs to generate a tree. Variants (slim, huge, silver...)
+// are just different values of this object.
+
+export interface WeightedColor {
+  color: string;
+  weight: number;
+}
+
+export interface TreeShapeConfig {
+  height: number;      // Height of the filled foliage cone
+  apexHeight: number;  // Height where the cone radius reaches zero (>= height keeps a blunt tip)
+  baseRadius: number;
+}
+
+export interface FoliageConfig {
+  count: number;
+  colors: string[];    // Needle body colors, picked uniformly
+  tipColor: string;
+  tipRatio: number;    // 0..1 share of needles using tipColor
+  chaosSpread: number; // Edge length of the explosion cube
+  chaosLift: number;   // Upward bias of the explosion
+}
+
+export interface OrnamentConfig {
+  count: number;
+  fillHeight: number;  // Ornaments hang between 0 and this height
+  offset: number;      // Distance outside the foliage surface
+  spiralTurns: number;
+  minScale: number;
+  maxScale: number;
+  giftRatio: number;   // 0..1 share of gifts, the rest are cat baubles
+  ballColors: WeightedColor[];
+  giftColors: WeightedColor[];
+  earColor: string;
+  chaosSpread: number;
+}
+
+export interface LightsConfig {
+  count: number;       // Bulbs across all strands
+  strands: number;     // Separate spirals, evenly offset around the tree
+  offset: number;      // Distance outside the foliage surface
+  bulbSize: number;
+  colors: string[];    // Palette for the built-in patterns
+  chaosSpread: number;
+}
+
+export interface GuardianConfig {
+  count: number;
+  radius: number;
+  arc: number;         // Degrees of the circle they sit along (360 = all the way round)
+  startAngle: number;  // Degrees; where the arc begins (0 = +x, 90 = +z, towards the camera)
+}
+
+export interface TreeConfig {
+  shape: TreeShapeConfig;
+  foliage: FoliageConfig;
+  ornaments: OrnamentConfig;
+  lights: LightsConfig;
+  guardians: GuardianConfig;
+}
+
+// A config file only needs to name the values it changes
+export type PartialTreeConfig = {
+  [K in keyof TreeConfig]?: Partial<TreeConfig[K]>;
+};
+
+// --- INPUT ---
+export type InputSourceKind = 'webcam' | 'pointer' | 'keyboard' | 'gamepad' | 'replay';
+
+export type InputCommand =
+  | 'unleash'
+  | 'reform'
+  | 'toggle'
+  | 'rotateLeft'
+  | 'rotateRight'
+  | 'launchTopper'
+  | 'resetView'
+  | 'nextMorph';
+
+export type InputEvent = GestureEvent | { type: 'command'; command: InputCommand; time: number };
+
+// The one normalized stream every input source feeds
+export interface InputFrame {
+  source: InputSourceKind;
+  time: number;
+  energy: number;   // 0..1 motion / intensity
+  cx: number;       // Screen space, -1..1
+  cy: number;
+  active: boolean;  // Whether cx/cy carry a meaningful position this frame
+  events: InputEvent[];
+  touches?: TouchPoint[]; // Points pressing on the tree right now (omitted = source doesn't touch)
+}
+
+// A finger, mouse button or hand pressing on the tree, in screen space like cx/cy
+export interface TouchPoint {
+  id: string;
+  cx: number;
+  cy: number;
+}
+
+// A webcam session saved to JSON; frame times are ms from the start of the recording
+export interface RecordedSession {
+  version: 1;
+  recordedAt: string;
+  frames: MotionFrame[];
+}
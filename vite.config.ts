@@ -18,6 +18,26 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `vite build --mode lib` builds the embeddable scene (lib.ts) as an ES module;
+      // the app build also ships embed.html for iframe embedding
+      build: mode === 'lib' ? {
+        outDir: 'dist-lib',
+        lib: {
+          entry: path.resolve(__dirname, 'lib.ts'),
+          formats: ['es'],
+          fileName: 'annatree',
+        },
+        rollupOptions: {
+          external: [/^react($|\/)/, /^react-dom($|\/)/, /^three($|\/)/, /^@react-three\//, 'maath'],
+        },
+      } : {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            embed: path.resolve(__dirname, 'embed.html'),
+          },
+        },
+      },
     };
 });